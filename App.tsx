@@ -1,23 +1,57 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import type { Message, Settings } from './types';
-import { runChatStream, DEFAULT_SYSTEM_INSTRUCTION } from './services/geminiService';
-import { extractTextFromPDF } from './utils/pdfParser';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import type { AnswerStatus, Conversation, ConversationSnapshot, Message, MessageBranches, MessageUsage, Settings, KnowledgeDocument, KnowledgeChunk, KnowledgeDigest, FileUploadReport, ExtractedContent, ChunkingOptions, ConversationSummary, RetrievalTrace, SourceLocation } from './types';
+import { buildChatRequest, condenseQuery, summarizeConversation, judgeClaims, suggestStarterQuestions, suggestFollowUpQuestions, suggestConversationTitle, DEFAULT_SYSTEM_INSTRUCTION } from './services/chatService';
+import { createProvider, createMeteredProvider, PROVIDERS } from './services/llmProvider';
+import type { TokenUsage } from './services/llmProvider';
+import { createRetryingProvider } from './services/retry';
+import { buildKnowledgeDigest } from './services/digestService';
+import type { DigestProgress } from './services/digestService';
+import { AuthenticationError, BillingError, ContextLengthError, MissingApiKeyError, NetworkError, RateLimitError, ServerError } from './services/llmErrors';
+import * as storage from './services/storageService';
+import type { StorageUsage } from './services/storageService';
+import { extractContentFromPDF } from './utils/pdfParser';
+import { extractContentFromFile, isSupportedFile, isPdfFile } from './utils/fileExtractors';
+import { createKnowledgeDocument, refreshKnowledgeDocument, estimateTokens } from './utils/knowledgeBase';
+import { planHistory } from './utils/history';
+import { chunkDocument, isChunkedWith, DEFAULT_CHUNKING } from './utils/chunker';
+import { buildBm25Index, withTermStats } from './utils/bm25';
+import { retrieveChunks, buildContext, toMessageSources, toTraceCandidates } from './utils/retrieval';
+import { buildVectorIndex } from './utils/vectorIndex';
+import { createProviderEmbedder } from './utils/embeddings';
+import { parseStructuredAnswer, toAssessment } from './utils/structuredAnswer';
+import type { StructuredAnswer } from './utils/structuredAnswer';
+import { verifyGrounding, applyJudgeVerdicts } from './utils/grounding';
+import { knowledgeBaseFingerprint, sampleChunks, neighbourChunks } from './utils/suggestions';
+import type { StarterQuestions } from './utils/suggestions';
+import { stripCitations } from './utils/citations';
+import { matchFaqEntries, faqEntryToChunk, FAQ_DOCUMENT_ID, FAQ_SOURCE_TITLE } from './utils/digest';
+import { formatEur, sumUsage } from './utils/usage';
+import { checkBudgets, describeBudgetStatus, economySettings, spendingByScope, spentFromTokenUsage, spentFromUsage, sumSpending, EMPTY_LEDGER } from './utils/budget';
+import type { SpentAmount, UsageLedger } from './utils/budget';
+import { createSnapshot, displayConversationTitle, matchesSnapshot } from './utils/conversations';
+import { conversationToHtml, conversationToJson, conversationToMarkdown, exportFileName, parseConversationJson } from './utils/conversationExport';
+import type { ExportFormat } from './utils/conversationExport';
+import { downloadText } from './utils/download';
+import type { ConversationSearchResult } from './utils/conversationSearch';
 import ChatWindow from './components/ChatWindow';
 import ChatInput from './components/ChatInput';
+import SuggestedQuestions from './components/SuggestedQuestions';
+import ConversationSidebar from './components/ConversationSidebar';
+import ExportMenu from './components/ExportMenu';
+import FindBar from './components/FindBar';
+import ConversationSearchDialog from './components/ConversationSearchDialog';
 import BotIcon from './components/icons/BotIcon';
-import ExportIcon from './components/icons/ExportIcon';
 import TrashIcon from './components/icons/TrashIcon';
 import TokenIcon from './components/icons/TokenIcon';
 import SettingsPanel from './components/SettingsPanel';
-import SearchIcon from './components/icons/SearchIcon';
 import FocusViewIcon from './components/icons/FocusViewIcon';
 import SettingsIcon from './components/icons/SettingsIcon';
-
-
-// --- Constants for Token Estimation ---
-const TOTAL_TOKEN_LIMIT = 990000;
-const CHARS_PER_TOKEN = 4; // A common approximation for token calculation
+import UploadIcon from './components/icons/UploadIcon';
+import DocumentViewer from './components/DocumentViewer';
+import type { DocumentViewerTarget } from './components/DocumentViewer';
+import RetryCountdown from './components/RetryCountdown';
+import type { RetryStatus } from './components/RetryCountdown';
 
 // The original URL for the PDF.
 const REMOTE_PDF_URL = 'https://www.theround.it/ai/chatchok/doc.pdf';
@@ -25,98 +59,92 @@ const REMOTE_PDF_URL = 'https://www.theround.it/ai/chatchok/doc.pdf';
 // A CORS proxy is used to bypass browser restrictions (CORS policy) that prevent
 // direct fetching of the PDF from a different domain. This proxy fetches the file
 // on the server-side and forwards it to the client with the correct headers.
-const PROXIED_REMOTE_PDF_URL = `https://cors.sh/${REMOTE_PDF_URL}`;
-
-
-// --- Start of Text Utilities ---
-/**
- * Splits a long text into smaller chunks based on paragraphs, respecting a maximum chunk size.
- * @param text The full text to chunk.
- * @param maxChunkSizeInChars The approximate maximum size of each chunk in characters.
- * @returns An array of text chunks.
- */
-const chunkText = (text: string, maxChunkSizeInChars: number = 2000): string[] => {
-    if (!text) return [];
+const proxiedUrl = (url: string) => `https://cors.sh/${url}`;
 
-    const paragraphs = text.split(/\n\s*\n/);
-    const chunks: string[] = [];
-    let currentChunk = "";
+const DEFAULT_SETTINGS: Settings = {
+    provider: 'gemini',
+    model: PROVIDERS.gemini.defaultModel,
+    temperature: 0.5,
+    systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+    retrievalTopK: 5,
+    retrievalScoreThreshold: 0.2,
+    semanticSearch: true,
+    chunkMaxTokens: DEFAULT_CHUNKING.maxTokens,
+    chunkOverlapTokens: DEFAULT_CHUNKING.overlapTokens,
+    queryRewriting: true,
+    historyTokenBudget: 4000,
+    openAiBaseUrl: 'http://localhost:11434/v1',
+    openAiEmbeddingModel: 'nomic-embed-text',
+    groundingCheck: 'lexical',
+    suggestQuestions: true,
+    budgets: {
+        conversation: { maxTokens: 990000, maxCost: 0 },
+        daily: { maxTokens: 0, maxCost: 2 },
+        total: { maxTokens: 0, maxCost: 0 },
+    },
+    budgetWarningPercent: 80,
+};
 
-    for (const paragraph of paragraphs) {
-        if (paragraph.trim().length === 0) continue;
+// Number of preceding messages given to the query rewriter.
+const QUERY_HISTORY_MESSAGES = 6;
 
-        if (currentChunk.length + paragraph.length > maxChunkSizeInChars) {
-            if (currentChunk) {
-                chunks.push(currentChunk);
-            }
-            currentChunk = paragraph;
-        } else {
-            currentChunk += (currentChunk ? "\n\n" : "") + paragraph;
-        }
-    }
+const STARTER_QUESTION_COUNT = 4;
+// Estimated tokens of the excerpts the starter questions are written from.
+const STARTER_CONTEXT_TOKENS = 3000;
+const FOLLOW_UP_QUESTION_COUNT = 3;
+// Chunks next to the answer's sources that the follow-up questions are drawn from.
+const FOLLOW_UP_CONTEXT_CHUNKS = 4;
+// Approved FAQ entries sent with a question, ahead of the retrieved chunks.
+const FAQ_MAX_SOURCES = 2;
 
-    if (currentChunk) {
-        chunks.push(currentChunk);
-    }
+// A version of the conversation is stored from its first message on, without the versions that message holds.
+const toStoredVersion = ([first, ...rest]: Message[]): Message[] => [{ ...first, branches: undefined }, ...rest];
 
-    // Secondary check for any single paragraphs that are too large
-    return chunks.flatMap(chunk => {
-        if (chunk.length > maxChunkSizeInChars) {
-            const sentences = chunk.split(/(?<=[.?!])\s+/);
-            const subChunks: string[] = [];
-            let currentSubChunk = "";
-            for (const sentence of sentences) {
-                if (currentSubChunk.length + sentence.length > maxChunkSizeInChars) {
-                    if (currentSubChunk) subChunks.push(currentSubChunk);
-                    currentSubChunk = sentence;
-                } else {
-                    currentSubChunk += (currentSubChunk ? " " : "") + sentence;
-                }
-            }
-            if (currentSubChunk) subChunks.push(currentSubChunk);
-            return subChunks;
-        }
-        return chunk;
-    });
-};
+// Shared by conversations without snapshots, so that opening one is not taken for a change to save.
+const NO_SNAPSHOTS: ConversationSnapshot[] = [];
 
 /**
- * Finds the most relevant text chunks based on a user's query using simple keyword matching.
- * @param query The user's question.
- * @param chunks The array of available knowledge base chunks.
- * @param topK The number of top chunks to return.
- * @returns A single string containing the concatenated relevant chunks.
+ * Explains a failed answer to the user, from the type of error thrown by the provider.
  */
-const getRelevantChunks = (query: string, chunks: string[], topK: number = 5): string => {
-    if (!chunks || chunks.length === 0) {
-        return '';
+const toDisplayErrorMessage = (err: unknown): string => {
+    const errorDetails = err instanceof Error ? err.message : String(err);
+    if (err instanceof MissingApiKeyError) {
+        return `La variabile d'ambiente API_KEY (o VITE_API_KEY) non è impostata. Assicurati che sia configurata correttamente nel tuo servizio di hosting (es. Netlify) e che il sito sia stato ripubblicato dopo l'aggiunta.`;
     }
-
-    const queryWords = new Set(query.toLowerCase().match(/\w+/g) || []);
-    if (queryWords.size === 0) {
-        return ''; // No relevant words in query
+    if (err instanceof AuthenticationError) {
+        return `La chiave API fornita non è valida o non ha i permessi necessari. Controlla la tua chiave nelle impostazioni di Google AI Studio e assicurati che l'API sia abilitata per il tuo progetto.\n\nNota: Se sei sicuro che la chiave sia corretta, verifica che sia stata copiata senza spazi extra e che il sito sia stato ripubblicato dopo ogni modifica.`;
     }
+    if (err instanceof BillingError) {
+        return `Si è verificato un problema di fatturazione con il tuo account Google Cloud. Assicurati che la fatturazione sia abilitata per il progetto associato alla tua chiave API.`;
+    }
+    if (err instanceof ContextLengthError) {
+        return `La richiesta ha superato il limite di token. Questo non dovrebbe accadere con la nuova gestione della conoscenza. Se il problema persiste, contatta il supporto.`;
+    }
+    if (err instanceof RateLimitError) {
+        return `Il limite di richieste del servizio è stato raggiunto anche dopo diversi tentativi. Attendi qualche minuto e riprova.\n\nDettagli: ${errorDetails}`;
+    }
+    if (err instanceof NetworkError) {
+        return `Impossibile raggiungere il servizio: controlla la connessione e riprova.\n\nDettagli: ${errorDetails}`;
+    }
+    if (err instanceof ServerError) {
+        return `Il servizio non è al momento disponibile o è sovraccarico. Riprova tra poco.\n\nDettagli: ${errorDetails}`;
+    }
+    return `Si è verificato un errore inatteso. Riprova.\n\nDettagli: ${errorDetails}`;
+};
 
-    const scoredChunks = chunks.map((chunk, index) => {
-        const chunkWords = new Set(chunk.toLowerCase().match(/\w+/g) || []);
-        let score = 0;
-        for (const word of queryWords) {
-            if (chunkWords.has(word)) {
-                score++;
-            }
-        }
-        return { chunk, score, index };
-    });
-
-    const topChunks = scoredChunks
-        .sort((a, b) => b.score - a.score)
-        .slice(0, topK)
-        .filter(c => c.score > 0) // Only include chunks that have at least one match
-        .sort((a, b) => a.index - b.index); // Restore original order for context
-
-    return topChunks.map(c => c.chunk).join('\n\n---\n\n');
+/** Names the cause of a failure that is being retried, for the countdown. */
+const describeTransientError = (err: unknown): string => {
+    if (err instanceof RateLimitError) return 'Limite di richieste raggiunto';
+    if (err instanceof NetworkError) return 'Connessione non riuscita';
+    return 'Servizio non disponibile';
 };
-// --- End of Text Utilities ---
+
+const createGreeting = (hasKnowledgeBase: boolean): Message => ({
+    role: 'model',
+    text: hasKnowledgeBase
+        ? "Buongiorno! Sono il tuo assistente di conoscenza. La base di conoscenza è carica, fai pure le tue domande."
+        : "Buongiorno! Sono il tuo assistente. Per iniziare, carica una base di conoscenza dal pannello delle impostazioni a sinistra.",
+});
 
 
 // --- Start of ConfirmationDialog Component ---
@@ -192,90 +220,343 @@ const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({
 // --- End of ConfirmationDialog Component ---
 
 const App: React.FC = () => {
-    const [messages, setMessages] = useState<Message[]>(() => {
-        const kbExists = !!localStorage.getItem('chatchok-knowledge-base');
-        const initialText = kbExists
-            ? "Buongiorno! Sono il tuo assistente di conoscenza. La base di conoscenza è carica, fai pure le tue domande."
-            : "Buongiorno! Sono il tuo assistente. Per iniziare, carica una base di conoscenza dal pannello delle impostazioni a sinistra.";
-        return [{ role: 'model', text: initialText }];
-    });
+    const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+    const [chunksByDocument, setChunksByDocument] = useState<Record<string, KnowledgeChunk[]>>({});
+    const [messages, setMessages] = useState<Message[]>(() => [createGreeting(false)]);
+    const [conversationId, setConversationId] = useState<string>(() => crypto.randomUUID());
+    const [conversationCreatedAt, setConversationCreatedAt] = useState<number>(() => Date.now());
+    const [conversationSummary, setConversationSummary] = useState<ConversationSummary | undefined>(undefined);
+    const [conversationTitle, setConversationTitle] = useState<string | undefined>(undefined);
+    const [isConversationPinned, setIsConversationPinned] = useState<boolean>(false);
+    const [conversationSnapshots, setConversationSnapshots] = useState<ConversationSnapshot[]>(NO_SNAPSHOTS);
+    // Every saved conversation, the current one included once it has a question.
+    const [conversations, setConversations] = useState<Conversation[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [totalTokensUsed, setTotalTokensUsed] = useState<number>(0);
-    const [knowledgeBase, setKnowledgeBase] = useState<string>(() => {
-         try {
-            return localStorage.getItem('chatchok-knowledge-base') || '';
-        } catch (e) {
-            console.error("Failed to read knowledge base from localStorage", e);
-            return '';
-        }
-    });
-    const [knowledgeBaseChunks, setKnowledgeBaseChunks] = useState<string[]>([]);
+    const [isStorageReady, setIsStorageReady] = useState<boolean>(false);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
     const [isParsing, setIsParsing] = useState<boolean>(false);
-    const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState<boolean>(false);
+    const [reloadingDocumentId, setReloadingDocumentId] = useState<string | null>(null);
+    const [uploadReports, setUploadReports] = useState<FileUploadReport[]>([]);
+    const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+    // Conversation waiting for the user to confirm its deletion.
+    const [pendingDeletionId, setPendingDeletionId] = useState<string | null>(null);
     const [searchQuery, setSearchQuery] = useState<string>('');
+    // Message index of each match of the search query highlighted in the chat, and the one selected in the find bar.
+    const [searchMatches, setSearchMatches] = useState<number[]>([]);
+    const [activeMatch, setActiveMatch] = useState<number>(0);
+    const [scrollTarget, setScrollTarget] = useState<{ messageIndex: number } | null>(null);
+    // Message whose first match is selected once the chat reports its matches, after opening a search result.
+    const pendingMatchMessageRef = useRef<number | null>(null);
+    const [isSearchDialogOpen, setIsSearchDialogOpen] = useState<boolean>(false);
     const [isSimpleView, setIsSimpleView] = useState<boolean>(false);
+    const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+    const [embeddingDocumentIds, setEmbeddingDocumentIds] = useState<string[]>([]);
+    const [viewerLocation, setViewerLocation] = useState<SourceLocation | null>(null);
+    const [retryStatus, setRetryStatus] = useState<RetryStatus | null>(null);
+    const [starterQuestions, setStarterQuestions] = useState<StarterQuestions | null>(null);
+    const [digest, setDigest] = useState<KnowledgeDigest | null>(null);
+    const [digestProgress, setDigestProgress] = useState<DigestProgress | null>(null);
+    const [usageLedger, setUsageLedger] = useState<UsageLedger>(EMPTY_LEDGER);
     
-    const stopStreamingRef = useRef(false);
+    // Cancels the request of the turn being answered.
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Cancels the digest being built.
+    const digestAbortControllerRef = useRef<AbortController | null>(null);
+    // Latest document list, for handlers that run across several awaits.
+    const documentsRef = useRef<KnowledgeDocument[]>([]);
+    documentsRef.current = documents;
+    // Documents whose embedding failed in this session; they are not retried automatically.
+    const failedEmbeddingIdsRef = useRef<Set<string>>(new Set());
+    // Knowledge base whose starter questions are being loaded or generated.
+    const starterFingerprintRef = useRef<string | null>(null);
+    // Latest conversation id and list, for titles generated in the background.
+    const conversationIdRef = useRef(conversationId);
+    conversationIdRef.current = conversationId;
+    const conversationsRef = useRef<Conversation[]>([]);
+    conversationsRef.current = conversations;
+
+    const knowledgeBaseChunks = useMemo(
+        () => documents.filter(doc => doc.enabled).flatMap(doc => chunksByDocument[doc.id] ?? []),
+        [documents, chunksByDocument]
+    );
+    // Term statistics are computed at ingestion, so this only aggregates corpus-level counts.
+    const bm25Index = useMemo(() => buildBm25Index(knowledgeBaseChunks), [knowledgeBaseChunks]);
+    const fingerprint = useMemo(() => knowledgeBaseFingerprint(documents), [documents]);
+
+    const refreshStorageUsage = useCallback(() => {
+        storage.getStorageUsage()
+            .then(setStorageUsage)
+            .catch(e => console.error("Failed to estimate storage usage", e));
+    }, []);
+
+    /**
+     * Changes the title or pin of a saved conversation other than the current one, which is saved by its own effect.
+     */
+    const updateStoredConversation = useCallback((id: string, changes: Pick<Conversation, 'title'> | Pick<Conversation, 'pinned'>) => {
+        const stored = conversationsRef.current.find(conversation => conversation.id === id);
+        if (!stored) return;
+        const updated = { ...stored, ...changes };
+        setConversations(prev => prev.map(conversation => conversation.id === id ? updated : conversation));
+        storage.saveConversation(updated).catch(e => console.error("Failed to save conversation", e));
+    }, []);
 
-    // Sync knowledge base state with localStorage changes (e.g., from another tab)
+    const recordSpending = useCallback((amount: SpentAmount) => {
+        storage.recordSpending(amount)
+            .then(setUsageLedger)
+            .catch(e => console.error("Failed to record spending", e));
+    }, []);
+
+    const budgetSpending = useMemo(() => spendingByScope(sumSpending(messages), usageLedger), [messages, usageLedger]);
+    const budgetStatus = useMemo(() => checkBudgets(budgetSpending, settings), [budgetSpending, settings]);
+    const budgetNotice = describeBudgetStatus(budgetStatus);
+
+    const provider = useMemo(
+        () => createProvider({ provider: settings.provider, openAiBaseUrl: settings.openAiBaseUrl, openAiEmbeddingModel: settings.openAiEmbeddingModel }),
+        [settings.provider, settings.openAiBaseUrl, settings.openAiEmbeddingModel]
+    );
+    // Document embeddings run in the background, so their retries are not reported.
+    const embedder = useMemo(() => createProviderEmbedder(createRetryingProvider(provider)), [provider]);
+    // Vectors of different models live in different spaces: only chunks embedded by the model embedding queries are searched.
+    const vectorIndex = useMemo(() => {
+        const comparableIds = new Set(documents.filter(doc => doc.embeddingModel === embedder.model).map(doc => doc.id));
+        return buildVectorIndex(knowledgeBaseChunks, chunk => comparableIds.has(chunk.documentId));
+    }, [knowledgeBaseChunks, documents, embedder]);
+
+    const chunkingOptions = useMemo<ChunkingOptions>(
+        () => ({ maxTokens: settings.chunkMaxTokens, overlapTokens: settings.chunkOverlapTokens }),
+        [settings.chunkMaxTokens, settings.chunkOverlapTokens]
+    );
+
+    /**
+     * Loads the knowledge base from IndexedDB. Chunks and their term statistics are precomputed at ingestion time;
+     * documents stored without them, or chunked with other options, are re-chunked by the effect below.
+     */
+    const loadKnowledgeBase = useCallback(async () => {
+        const { documents: storedDocuments, chunksByDocument: storedChunks } = await storage.loadKnowledgeBase();
+        setDocuments(storedDocuments);
+        setChunksByDocument(storedChunks);
+        return storedDocuments;
+    }, []);
+
+    /**
+     * Makes a stored conversation the current one.
+     */
+    const openConversation = useCallback((conversation: Conversation) => {
+        setConversationId(conversation.id);
+        setConversationCreatedAt(conversation.createdAt);
+        setConversationSummary(conversation.summary);
+        setConversationTitle(conversation.title);
+        setIsConversationPinned(conversation.pinned ?? false);
+        setConversationSnapshots(conversation.snapshots ?? NO_SNAPSHOTS);
+        setMessages(conversation.messages);
+    }, []);
+
+    // Restore the knowledge base, settings and last conversation on startup.
     useEffect(() => {
-        const handleStorageChange = (event: StorageEvent) => {
-            if (event.key === 'chatchok-knowledge-base') {
-                const newKnowledgeBase = event.newValue || '';
-                setKnowledgeBase(newKnowledgeBase);
-                setKnowledgeBaseChunks(chunkText(newKnowledgeBase));
+        const restore = async () => {
+            try {
+                const [storedDocuments, storedSettings, conversations, storedDigest, storedLedger] = await Promise.all([
+                    loadKnowledgeBase(),
+                    storage.loadSettings(),
+                    storage.loadConversations(),
+                    storage.loadDigest(),
+                    storage.loadUsageLedger(),
+                ]);
+                if (storedSettings) {
+                    setSettings({ ...DEFAULT_SETTINGS, ...storedSettings });
+                }
+                setDigest(storedDigest ?? null);
+                setUsageLedger(storedLedger);
+                setConversations(conversations);
+                const lastConversation = conversations[0];
+                if (lastConversation) {
+                    openConversation(lastConversation);
+                } else {
+                    setMessages([createGreeting(storedDocuments.length > 0)]);
+                }
+            } catch (e) {
+                console.error("Failed to open IndexedDB storage", e);
+                setError("Impossibile accedere all'archivio del browser. La base di conoscenza e la chat funzioneranno solo in questa finestra.");
+            } finally {
+                setIsStorageReady(true);
+                refreshStorageUsage();
             }
         };
-        window.addEventListener('storage', handleStorageChange);
-        return () => {
-            window.removeEventListener('storage', handleStorageChange);
+        restore();
+    }, [loadKnowledgeBase, refreshStorageUsage, openConversation]);
+
+    // Sync knowledge base state with changes made in another tab
+    useEffect(() => {
+        return storage.subscribeToDocumentChanges(() => {
+            loadKnowledgeBase().catch(e => console.error("Failed to reload knowledge base", e));
+        });
+    }, [loadKnowledgeBase]);
+
+    useEffect(() => {
+        if (!isStorageReady) return;
+        storage.saveSettings(settings).catch(e => console.error("Failed to save settings", e));
+    }, [settings, isStorageReady]);
+
+    // Persist the conversation once each turn is complete, rather than on every streamed chunk.
+    useEffect(() => {
+        if (!isStorageReady || isLoading || !messages.some(msg => msg.role === 'user')) return;
+        const stored = conversations.find(conversation => conversation.id === conversationId);
+        const hasNewMessages = stored?.messages !== messages;
+        if (stored && !hasNewMessages && stored.summary === conversationSummary && stored.title === conversationTitle
+            && (stored.pinned ?? false) === isConversationPinned && (stored.snapshots ?? NO_SNAPSHOTS) === conversationSnapshots) return;
+        const conversation: Conversation = {
+            id: conversationId,
+            title: conversationTitle,
+            pinned: isConversationPinned,
+            messages,
+            summary: conversationSummary,
+            snapshots: conversationSnapshots,
+            createdAt: conversationCreatedAt,
+            // Renaming or pinning a conversation does not move it up the history.
+            updatedAt: stored && !hasNewMessages ? stored.updatedAt : Date.now(),
         };
-    }, []);
+        setConversations(prev => [conversation, ...prev.filter(other => other.id !== conversation.id)]);
+        storage.saveConversation(conversation)
+            .then(refreshStorageUsage)
+            .catch(e => console.error("Failed to save conversation", e));
+    }, [messages, isLoading, isStorageReady, conversations, conversationId, conversationSummary, conversationTitle, isConversationPinned, conversationSnapshots, conversationCreatedAt, refreshStorageUsage]);
 
-    const [settings, setSettings] = useState<Settings>(() => {
+    /**
+     * Adds or replaces a document, chunking and indexing it once and persisting document and chunks together.
+     * @param file The original file, kept for the document viewer (PDF only).
+     */
+    const storeDocument = useCallback(async (content: KnowledgeDocument, file?: File) => {
+        const document = { ...content, chunking: chunkingOptions, ...(file && { originalFileType: 'application/pdf' }) };
+        const chunks = withTermStats(chunkDocument(document, chunkingOptions));
+        const exists = documentsRef.current.some(doc => doc.id === document.id);
+        documentsRef.current = exists
+            ? documentsRef.current.map(doc => doc.id === document.id ? document : doc)
+            : [...documentsRef.current, document];
+        setDocuments(documentsRef.current);
+        setChunksByDocument(prev => ({ ...prev, [document.id]: chunks }));
         try {
-            const savedSettings = localStorage.getItem('chatSettings');
-            if (savedSettings) {
-                return JSON.parse(savedSettings);
-            }
+            await storage.saveDocument(document, chunks, file);
         } catch (e) {
-            console.error("Failed to parse settings from localStorage", e);
+            console.error("Failed to save knowledge base to IndexedDB", e);
+            setError(`Impossibile salvare "${document.title}" nell'archivio del browser. Funzionerà solo in questa finestra.`);
         }
-        return {
-            model: 'gemini-2.5-flash',
-            temperature: 0.5,
-            systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
-        };
-    });
+        refreshStorageUsage();
+    }, [chunkingOptions, refreshStorageUsage]);
+
+    // Re-chunk documents stored before chunking was configurable, or chunked with other settings.
+    // New chunks have no embeddings yet, so they are embedded again by the effect below.
+    useEffect(() => {
+        if (!isStorageReady) return;
+        for (const doc of documents) {
+            if (!isChunkedWith(doc, chunkingOptions) || !chunksByDocument[doc.id]) {
+                storeDocument({ ...doc, embeddingModel: undefined });
+            }
+        }
+    }, [documents, chunksByDocument, chunkingOptions, isStorageReady, storeDocument]);
 
-    const processAndStoreKnowledgeBase = useCallback((text: string) => {
-        setKnowledgeBase(text);
-        setKnowledgeBaseChunks(chunkText(text));
+    /**
+     * Computes and stores the chunk embeddings of the given documents, one document at a time.
+     * A document changed or removed while its embeddings were computed is skipped.
+     */
+    const embedDocuments = useCallback(async (pending: KnowledgeDocument[], chunks: Record<string, KnowledgeChunk[]>) => {
+        setEmbeddingDocumentIds(pending.map(doc => doc.id));
         try {
-            localStorage.setItem('chatchok-knowledge-base', text);
-        } catch (e) {
-            console.error("Failed to save knowledge base to localStorage", e);
-            setError("Impossibile salvare la base di conoscenza. Funzionerà solo in questa finestra.");
+            for (const doc of pending) {
+                try {
+                    const docChunks = chunks[doc.id];
+                    const vectors = await embedder.embed(docChunks.map(chunk => chunk.text), 'RETRIEVAL_DOCUMENT');
+                    const current = documentsRef.current.find(d => d.id === doc.id);
+                    if (!current || current.loadedAt !== doc.loadedAt || current.chunking !== doc.chunking) continue;
+
+                    const embeddedDoc = { ...current, embeddingModel: embedder.model };
+                    const embeddedChunks = docChunks.map((chunk, i) => ({ ...chunk, embedding: vectors[i] }));
+                    documentsRef.current = documentsRef.current.map(d => d.id === doc.id ? embeddedDoc : d);
+                    setDocuments(documentsRef.current);
+                    setChunksByDocument(prev => ({ ...prev, [doc.id]: embeddedChunks }));
+                    await storage.saveDocument(embeddedDoc, embeddedChunks);
+                } catch (e) {
+                    console.error(`Failed to embed ${doc.title}`, e);
+                    failedEmbeddingIdsRef.current.add(doc.id);
+                    setError(`Impossibile calcolare gli embedding di "${doc.title}": la ricerca su questo documento userà solo le parole chiave.`);
+                }
+            }
+        } finally {
+            setEmbeddingDocumentIds([]);
+            refreshStorageUsage();
         }
-    }, []);
+    }, [refreshStorageUsage, embedder]);
+
+    // Embed the chunks of new, reloaded or migrated documents in the background.
+    useEffect(() => {
+        if (!isStorageReady || !settings.semanticSearch || embeddingDocumentIds.length > 0) return;
+        const pending = documents.filter(doc =>
+            doc.embeddingModel !== embedder.model &&
+            (chunksByDocument[doc.id]?.length ?? 0) > 0 &&
+            !failedEmbeddingIdsRef.current.has(doc.id)
+        );
+        if (pending.length > 0) {
+            embedDocuments(pending, chunksByDocument);
+        }
+    }, [documents, chunksByDocument, isStorageReady, settings.semanticSearch, embeddingDocumentIds, embedDocuments, embedder]);
+
+    // Load the starter questions of the knowledge base, generating them when it has changed since they were cached.
+    useEffect(() => {
+        // Optional requests are not sent while a budget is running out.
+        if (!isStorageReady || !settings.suggestQuestions || knowledgeBaseChunks.length === 0 || budgetStatus.level !== 'ok') return;
+        if (starterQuestions?.fingerprint === fingerprint || starterFingerprintRef.current === fingerprint) return;
+        starterFingerprintRef.current = fingerprint;
+
+        const load = async () => {
+            const cached = await storage.loadStarterQuestions().catch(() => undefined);
+            if (cached?.fingerprint === fingerprint) {
+                setStarterQuestions(cached);
+                return;
+            }
+            const context = buildContext(toMessageSources(sampleChunks(knowledgeBaseChunks, STARTER_CONTEXT_TOKENS), documents));
+            const meteredProvider = createMeteredProvider(createRetryingProvider(provider), spent => recordSpending(spentFromTokenUsage(spent, settings.model)));
+            const questions = await suggestStarterQuestions(meteredProvider, context, STARTER_QUESTION_COUNT, settings.model);
+            const generated = { fingerprint, questions };
+            setStarterQuestions(generated);
+            await storage.saveStarterQuestions(generated);
+        };
+        load()
+            .catch(e => console.warn("Starter questions could not be generated", e))
+            .finally(() => {
+                if (starterFingerprintRef.current === fingerprint) starterFingerprintRef.current = null;
+            });
+    }, [isStorageReady, settings.suggestQuestions, settings.model, knowledgeBaseChunks, documents, fingerprint, starterQuestions, provider, budgetStatus.level, recordSpending]);
+
+    /**
+     * Stores extracted content, refreshing the existing document with the same source if there is one.
+     */
+    const upsertDocument = useCallback(async (content: ExtractedContent, title: string, source: string, file?: File) => {
+        const existing = documentsRef.current.find(doc => doc.source === source);
+        await storeDocument(existing
+            ? refreshKnowledgeDocument(existing, content)
+            : createKnowledgeDocument(content, title, source), file);
+    }, [storeDocument]);
+
+    const fetchRemotePDF = async (url: string, fileName: string): Promise<{ content: ExtractedContent; file: File }> => {
+        const response = await fetch(proxiedUrl(url));
+        if (!response.ok) {
+            throw new Error(`Impossibile scaricare il file (status: ${response.status})`);
+        }
+        const blob = await response.blob();
+        if (!blob.type.includes('pdf')) {
+            console.warn(`Il file remoto potrebbe non essere un PDF. MIME type: ${blob.type}`);
+        }
+
+        const remoteFile = new File([blob], fileName, { type: 'application/pdf' });
+        return { content: await extractContentFromPDF(remoteFile), file: remoteFile };
+    };
     
     const handleLoadRemotePDF = useCallback(async () => {
         setIsParsing(true);
         setError(null);
         try {
-            const response = await fetch(PROXIED_REMOTE_PDF_URL);
-            if (!response.ok) {
-                throw new Error(`Impossibile scaricare il file (status: ${response.status})`);
-            }
-            const blob = await response.blob();
-            if (!blob.type.includes('pdf')) {
-                console.warn(`Il file remoto potrebbe non essere un PDF. MIME type: ${blob.type}`);
-            }
-
-            const remoteFile = new File([blob], 'doc.pdf', { type: 'application/pdf' });
-            const text = await extractTextFromPDF(remoteFile);
-            processAndStoreKnowledgeBase(text);
+            const { content, file } = await fetchRemotePDF(REMOTE_PDF_URL, 'doc.pdf');
+            await upsertDocument(content, 'doc.pdf', REMOTE_PDF_URL, file);
 
         } catch (err) {
             console.error("Error fetching remote PDF:", err);
@@ -284,170 +565,786 @@ const App: React.FC = () => {
         } finally {
             setIsParsing(false);
         }
-    }, [processAndStoreKnowledgeBase]);
-    
-    // Chunk the knowledge base if it's loaded from localStorage on startup.
-    useEffect(() => {
-        if (knowledgeBase) {
-            setKnowledgeBaseChunks(chunkText(knowledgeBase));
+    }, [upsertDocument]);
+
+    const handleUploadFiles = useCallback(async (files: File[]) => {
+        if (files.length === 0) return;
+
+        const reports: FileUploadReport[] = files.map(file => ({
+            id: crypto.randomUUID(),
+            fileName: file.name,
+            status: 'pending',
+            progress: 0,
+        }));
+        const updateReport = (id: string, changes: Partial<FileUploadReport>) => {
+            setUploadReports(prev => prev.map(report => report.id === id ? { ...report, ...changes } : report));
+        };
+
+        setUploadReports(reports);
+        setIsParsing(true);
+        setError(null);
+
+        let failedCount = 0;
+        for (let i = 0; i < files.length; i++) {
+            const file = files[i];
+            const reportId = reports[i].id;
+
+            if (!isSupportedFile(file)) {
+                failedCount++;
+                updateReport(reportId, { status: 'error', error: "Formato non supportato." });
+                continue;
+            }
+
+            updateReport(reportId, { status: 'parsing' });
+            try {
+                const content = await extractContentFromFile(file, progress => updateReport(reportId, { progress }));
+                if (!content.text.trim()) {
+                    throw new Error("Nessun testo estraibile dal file.");
+                }
+                await upsertDocument(content, file.name, file.name, isPdfFile(file) ? file : undefined);
+                updateReport(reportId, { status: 'done', progress: 1 });
+            } catch (err) {
+                console.error(`Error parsing ${file.name}:`, err);
+                failedCount++;
+                const message = err instanceof Error ? err.message : String(err);
+                updateReport(reportId, { status: 'error', error: message });
+            }
         }
-    }, []); // This effect should run only once on initial mount
-    
-    useEffect(() => {
-        localStorage.setItem('chatSettings', JSON.stringify(settings));
-    }, [settings]);
+
+        if (failedCount > 0) {
+            setError(`${failedCount} file su ${files.length} non sono stati caricati. Controlla il riepilogo nelle impostazioni.`);
+        }
+        setIsParsing(false);
+    }, [upsertDocument]);
+
+    const handleReloadDocument = useCallback(async (documentId: string, file?: File) => {
+        const target = documents.find(doc => doc.id === documentId);
+        if (!target) return;
+
+        setReloadingDocumentId(documentId);
+        setError(null);
+        try {
+            const reloaded = file
+                ? { content: await extractContentFromFile(file), file: isPdfFile(file) ? file : undefined }
+                : await fetchRemotePDF(target.source, target.title);
+            await storeDocument(refreshKnowledgeDocument(target, reloaded.content), reloaded.file);
+        } catch (err) {
+            console.error("Error reloading document:", err);
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`Errore nel ricaricamento di "${target.title}": ${message}`);
+        } finally {
+            setReloadingDocumentId(null);
+        }
+    }, [documents, storeDocument]);
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFiles(true);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        // Ignore leave events fired when moving between child elements.
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        setIsDraggingFiles(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        if (isParsing) return;
+        handleUploadFiles(Array.from(e.dataTransfer.files));
+    };
+
+    const handleToggleDocument = useCallback((documentId: string) => {
+        const updated = documents.map(doc => doc.id === documentId ? { ...doc, enabled: !doc.enabled } : doc);
+        setDocuments(updated);
+        const toggled = updated.find(doc => doc.id === documentId);
+        if (toggled) {
+            storage.saveDocument(toggled).catch(e => console.error("Failed to save document", e));
+        }
+    }, [documents]);
+
+    const handleDeleteDocument = useCallback((documentId: string) => {
+        setDocuments(prev => prev.filter(doc => doc.id !== documentId));
+        setChunksByDocument(prev => {
+            const { [documentId]: _removed, ...rest } = prev;
+            return rest;
+        });
+        storage.deleteDocument(documentId)
+            .then(refreshStorageUsage)
+            .catch(e => console.error("Failed to delete document", e));
+    }, [refreshStorageUsage]);
+
+    const handleOpenSource = useCallback((location: SourceLocation) => {
+        setViewerLocation(location);
+    }, []);
+
+    // Only the original file of PDFs is kept; other documents cannot be shown in the viewer.
+    const canOpenDocument = useCallback(
+        (documentId: string) => !!documents.find(doc => doc.id === documentId)?.originalFileType,
+        [documents]
+    );
+
+    const viewerDocument = viewerLocation ? documents.find(doc => doc.id === viewerLocation.documentId) : undefined;
+    const viewerTarget = useMemo<DocumentViewerTarget>(() => {
+        if (!viewerLocation) return {};
+        // Chunk ids are positional, so after a re-chunking an old id names another passage: the stored text comes first.
+        const chunk = viewerLocation.passage === undefined && viewerLocation.chunkId
+            ? chunksByDocument[viewerLocation.documentId]?.find(c => c.id === viewerLocation.chunkId)
+            : undefined;
+        return {
+            chunkId: viewerLocation.chunkId,
+            pageStart: viewerLocation.pageStart,
+            pageEnd: viewerLocation.pageEnd,
+            passage: viewerLocation.passage ?? chunk?.text,
+        };
+    }, [viewerLocation, chunksByDocument]);
 
     const handleSettingsChange = useCallback((newSettings: Partial<Settings>) => {
         setSettings(prev => ({ ...prev, ...newSettings }));
     }, []);
 
-    const handleSendMessage = useCallback(async (newMessage: string) => {
-        if (!newMessage.trim()) return;
-
-        const userMessage: Message = { role: 'user', text: newMessage };
+    /**
+     * Answers a question after the given history, replacing whatever followed it.
+     * @param queryOverride A search query to use instead of rewriting the question (for debugging retrieval).
+     * @param branches The versions of the conversation from this question on, when it replaces an edited one.
+     */
+    const runTurn = useCallback(async (newMessage: string, history: Message[], queryOverride?: string, branches?: MessageBranches) => {
+        const userMessage: Message = { role: 'user', text: newMessage, branches, createdAt: Date.now() };
 
         if (knowledgeBaseChunks.length === 0) {
-            setMessages(prev => [
-                ...prev,
+            setMessages([
+                ...history,
                 userMessage,
                 { role: 'model', text: "La base di conoscenza è vuota. Per favore, caricala usando il pannello delle impostazioni." }
             ]);
             return;
         }
 
-        setMessages(prevMessages => [...prevMessages, userMessage, { role: 'model', text: '' }]);
+        // Budgets are checked against the stored ledger, which other tabs may have updated meanwhile.
+        const ledger = await storage.loadUsageLedger().catch(() => usageLedger);
+        setUsageLedger(ledger);
+        const budget = checkBudgets(spendingByScope(sumSpending([...history, userMessage]), ledger), settings);
+        if (budget.level === 'blocked') {
+            setMessages([...history, userMessage, { role: 'model', text: describeBudgetStatus(budget)!, failed: true }]);
+            return;
+        }
+        // Close to a limit, the turn is answered with a cheaper model and fewer chunks.
+        const turnSettings = budget.level === 'warning' ? economySettings(settings) : settings;
+        // The answer refers to the settings and documents it is given with, recorded again only when they change.
+        const lastSnapshot = conversationSnapshots[conversationSnapshots.length - 1];
+        const snapshot = lastSnapshot && matchesSnapshot(lastSnapshot, turnSettings, documents) ? lastSnapshot : createSnapshot(turnSettings, documents);
+        if (snapshot !== lastSnapshot) setConversationSnapshots(prev => [...prev, snapshot]);
+
+        setMessages([...history, userMessage, { role: 'model', text: '', snapshotId: snapshot.id, createdAt: Date.now() }]);
         setIsLoading(true);
         setError(null);
-        stopStreamingRef.current = false;
+        setRetryStatus(null);
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        // Transient failures are retried, with a countdown shown until the next attempt.
+        const turnProvider = createRetryingProvider(provider, {
+            onRetry: ({ attempt, maxAttempts, delayMs, error }) => setRetryStatus({
+                attempt,
+                maxAttempts,
+                retryAt: Date.now() + delayMs,
+                reason: describeTransientError(error),
+            }),
+        });
+        const turnEmbedder = createProviderEmbedder(turnProvider);
+        // Kept outside the try block, to account for the tokens of an answer stopped midway.
+        let messageUsage: MessageUsage = {
+            model: turnSettings.model,
+            promptTokens: 0,
+            contextTokens: 0,
+            outputTokens: 0,
+            thinkingTokens: 0,
+            auxiliaryPromptTokens: 0,
+            auxiliaryOutputTokens: 0,
+            estimated: true,
+        };
+        const updateUsage = (changes: Partial<MessageUsage>) => {
+            messageUsage = { ...messageUsage, ...changes };
+            const current = messageUsage;
+            setMessages(prev => prev.map((msg, i) => i === history.length + 1 ? { ...msg, usage: current } : msg));
+        };
+        // Requests other than the answer itself (query rewriting, summary, judge) are accounted separately.
+        const auxiliaryProvider = createMeteredProvider(turnProvider, auxiliary => updateUsage({
+            auxiliaryPromptTokens: messageUsage.auxiliaryPromptTokens + auxiliary.promptTokens,
+            auxiliaryOutputTokens: messageUsage.auxiliaryOutputTokens + auxiliary.completionTokens + (auxiliary.thinkingTokens ?? 0),
+        }));
+        let fullText = '';
+        let usage: TokenUsage | undefined;
+        let isStreamComplete = false;
 
         try {
+            // Follow-up questions ("e quanto costa?") are rewritten into a standalone query before retrieval.
+            let searchQuery = queryOverride ?? newMessage;
+            const recentHistory = history.filter(msg => !msg.failed).slice(-QUERY_HISTORY_MESSAGES);
+            if (queryOverride === undefined && turnSettings.queryRewriting && recentHistory.some(msg => msg.role === 'user')) {
+                try {
+                    searchQuery = await condenseQuery(auxiliaryProvider, newMessage, recentHistory, turnSettings.model, abortController.signal);
+                } catch (e) {
+                    console.warn("Query rewriting failed, searching with the original question", e);
+                }
+            }
+            if (searchQuery !== newMessage) {
+                setMessages(prev => prev.map((msg, i) => i === history.length ? { ...msg, searchQuery } : msg));
+            }
+
             // RAG Step: Get relevant context instead of the whole knowledge base
-            const relevantContext = getRelevantChunks(newMessage, knowledgeBaseChunks);
+            let queryEmbedding: number[] | undefined;
+            if (turnSettings.semanticSearch && vectorIndex.vectors.length > 0) {
+                try {
+                    [queryEmbedding] = await turnEmbedder.embed([searchQuery], 'RETRIEVAL_QUERY', abortController.signal);
+                } catch (e) {
+                    console.warn("Query embedding failed, falling back to lexical retrieval", e);
+                }
+            }
+
+            const retrieval = retrieveChunks(searchQuery, knowledgeBaseChunks, { bm25: bm25Index, vectors: vectorIndex }, {
+                topK: turnSettings.retrievalTopK,
+                scoreThreshold: turnSettings.retrievalScoreThreshold,
+            }, queryEmbedding);
+            // Approved FAQ entries matching the question take the place of the lowest ranked chunks.
+            const faqChunks = matchFaqEntries(searchQuery, digest?.faq ?? [], FAQ_MAX_SOURCES).map(faqEntryToChunk);
+            const sentChunks = [...faqChunks, ...retrieval.chunks].slice(0, Math.max(turnSettings.retrievalTopK, faqChunks.length));
+            const sources = toMessageSources(sentChunks, documents)
+                .map(source => source.documentId === FAQ_DOCUMENT_ID ? { ...source, documentTitle: FAQ_SOURCE_TITLE } : source);
+            const relevantContext = buildContext(sources);
 
-            const streamResult = await runChatStream(newMessage, settings, relevantContext);
+            // Earlier turns that no longer fit the history budget are folded into the running summary.
+            const historyPlan = planHistory(history, turnSettings.historyTokenBudget, conversationSummary);
+            let summary = historyPlan.summary;
+            if (historyPlan.overflow.length > 0) {
+                try {
+                    const text = historyPlan.overflow.some(msg => msg.role === 'user')
+                        ? await summarizeConversation(auxiliaryProvider, summary?.text ?? '', historyPlan.overflow, turnSettings.model, abortController.signal)
+                        : summary?.text ?? '';
+                    summary = { text, messageCount: historyPlan.coveredCount };
+                    setConversationSummary(summary);
+                } catch (e) {
+                    console.warn("Conversation summary failed, older turns are left out", e);
+                }
+            }
+
+            const historyTokens = historyPlan.recent.reduce((sum, msg) => sum + estimateTokens(msg.text), 0);
+            const promptTokens = {
+                systemInstruction: estimateTokens(turnSettings.systemInstruction),
+                context: estimateTokens(relevantContext),
+                summary: estimateTokens(summary?.text ?? ''),
+                history: historyTokens,
+                question: estimateTokens(newMessage),
+                total: 0,
+            };
+            promptTokens.total = promptTokens.systemInstruction + promptTokens.context + promptTokens.summary + promptTokens.history + promptTokens.question;
+            const trace: RetrievalTrace = {
+                question: newMessage,
+                query: searchQuery,
+                mode: retrieval.mode,
+                topK: turnSettings.retrievalTopK,
+                scoreThreshold: turnSettings.retrievalScoreThreshold,
+                candidates: toTraceCandidates(retrieval.candidates, documents),
+                sentChunkIds: sentChunks.map(chunk => chunk.id),
+                historyMessageCount: historyPlan.recent.length,
+                promptTokens,
+            };
+            setMessages(prev => prev.map((msg, i) => i === history.length + 1 ? { ...msg, retrieval: trace, sources } : msg));
+
+            // The prompt is counted before sending; without a counting API, the estimates above are used.
+            const chatRequest = buildChatRequest(newMessage, turnSettings, relevantContext, historyPlan.recent, summary?.text, abortController.signal);
+            let promptCount = promptTokens.total;
+            let contextCount = promptTokens.context;
+            if (turnProvider.countTokens) {
+                try {
+                    [promptCount, contextCount] = await Promise.all([
+                        turnProvider.countTokens(chatRequest),
+                        relevantContext
+                            ? turnProvider.countTokens({ ...chatRequest, systemInstruction: '', messages: [{ role: 'user', text: relevantContext }] })
+                            : Promise.resolve(0),
+                    ]);
+                } catch (e) {
+                    if (abortController.signal.aborted) throw e;
+                    console.warn("Token counting failed, using estimates", e);
+                }
+            }
+            updateUsage({ promptTokens: promptCount, contextTokens: contextCount });
+
+            const streamResult = turnProvider.streamChat(chatRequest);
             
-            let fullText = '';
-            let lastChunk;
+            let answer: StructuredAnswer = { text: '' };
             for await (const chunk of streamResult) {
-                if (stopStreamingRef.current) {
-                    break;
-                }
-                lastChunk = chunk;
+                setRetryStatus(null);
+                usage = chunk.usage ?? usage;
                 const chunkText = chunk.text;
                 fullText += chunkText;
+                // The reply is a JSON document: only its answer field is shown, as it streams in.
+                answer = parseStructuredAnswer(fullText);
+                const assessment = toAssessment(answer, sources);
                 setMessages(prev => {
                     const newMessages = [...prev];
-                    newMessages[newMessages.length - 1].text = fullText;
+                    newMessages[newMessages.length - 1] = { ...newMessages[newMessages.length - 1], text: answer.text, assessment };
                     return newMessages;
                 });
             }
+            isStreamComplete = true;
             
-            if (!stopStreamingRef.current && lastChunk) {
-                // Note: Token usage is now much lower as we don't send the full KB.
-                const tokenCount = lastChunk.usageMetadata?.totalTokenCount ?? 0;
-                setTotalTokensUsed(prev => prev + tokenCount);
+            if (usage) {
+                const promptTokenCount = usage.promptTokens;
+                updateUsage({
+                    promptTokens: usage.promptTokens,
+                    outputTokens: usage.completionTokens,
+                    thinkingTokens: usage.thinkingTokens ?? 0,
+                    estimated: false,
+                });
+                setMessages(prev => prev.map((msg, i) => i === history.length + 1 && msg.retrieval
+                    ? { ...msg, retrieval: { ...msg.retrieval, promptTokenCount } }
+                    : msg));
+            } else {
+                updateUsage({ outputTokens: estimateTokens(fullText) });
+            }
+
+            // The finished answer is checked sentence by sentence against the chunks it was given.
+            if (turnSettings.groundingCheck !== 'off' && sources.length > 0 && (answer.status ?? 'answered') === 'answered') {
+                let grounding = verifyGrounding(answer.text, sources);
+                if (grounding && turnSettings.groundingCheck === 'llm') {
+                    try {
+                        const verdicts = await judgeClaims(auxiliaryProvider, grounding.claims.map(claim => claim.text), relevantContext, turnSettings.model, abortController.signal);
+                        grounding = applyJudgeVerdicts(grounding, verdicts);
+                    } catch (e) {
+                        console.warn("Grounding judge failed, keeping the lexical check", e);
+                    }
+                }
+                if (grounding) {
+                    const result = grounding;
+                    setMessages(prev => prev.map((msg, i) => i === history.length + 1 ? { ...msg, grounding: result } : msg));
+                }
+            }
+
+            // The first exchange gives the conversation its title, written in the background unless a budget is running out.
+            if (!conversationTitle && !history.some(msg => msg.role === 'user') && budget.level === 'ok') {
+                const titledConversationId = conversationId;
+                const titleModel = turnSettings.model;
+                const titleProvider = createMeteredProvider(provider, spent => recordSpending(spentFromTokenUsage(spent, titleModel)));
+                suggestConversationTitle(titleProvider, newMessage, stripCitations(answer.text), titleModel)
+                    .then(title => {
+                        if (!title) return;
+                        // The user may have renamed the conversation, or opened another one, meanwhile.
+                        if (conversationIdRef.current === titledConversationId) {
+                            setConversationTitle(prev => prev ?? title);
+                        } else if (!conversationsRef.current.find(conversation => conversation.id === titledConversationId)?.title) {
+                            updateStoredConversation(titledConversationId, { title });
+                        }
+                    })
+                    .catch(e => console.warn("Conversation title could not be generated", e));
+            }
+
+            // Follow-up questions are written in the background, from the chunks next to those the answer used.
+            if (turnSettings.suggestQuestions && (answer.status ?? 'answered') === 'answered') {
+                const neighbours = neighbourChunks(retrieval.chunks.map(chunk => chunk.id), chunksByDocument, FOLLOW_UP_CONTEXT_CHUNKS);
+                const followUpContext = buildContext(neighbours.length > 0 ? toMessageSources(neighbours, documents) : sources);
+                const answerText = answer.text;
+                let followUpUsage: TokenUsage | undefined;
+                const followUpModel = turnSettings.model;
+                const followUpProvider = createMeteredProvider(provider, spent => {
+                    followUpUsage = spent;
+                    recordSpending(spentFromTokenUsage(spent, followUpModel));
+                });
+                suggestFollowUpQuestions(followUpProvider, newMessage, stripCitations(answerText), followUpContext, FOLLOW_UP_QUESTION_COUNT, turnSettings.model)
+                    // The answer may have been replaced meanwhile (regenerated, edited or switched to another version).
+                    .then(suggestions => setMessages(prev => prev.map((msg, i) => {
+                        if (i !== history.length + 1 || msg.text !== answerText) return msg;
+                        const usage = msg.usage && followUpUsage ? {
+                            ...msg.usage,
+                            auxiliaryPromptTokens: msg.usage.auxiliaryPromptTokens + followUpUsage.promptTokens,
+                            auxiliaryOutputTokens: msg.usage.auxiliaryOutputTokens + followUpUsage.completionTokens + (followUpUsage.thinkingTokens ?? 0),
+                        } : msg.usage;
+                        return { ...msg, suggestions, usage };
+                    })))
+                    .catch(e => console.warn("Follow-up questions could not be generated", e));
             }
 
         } catch (err) {
-            console.error("Gemini API Error:", err);
-            const errorDetails = err instanceof Error ? err.message : String(err);
-            
-            const isMissingApiKeyError = errorDetails === "API_KEY_MISSING";
-            const isInvalidApiKeyError = /API.*?key.*?not.*?valid|invalid.*?API.*?key|API.*?key.*?invalid|permission.*?denied|API_KEY_INVALID|API.*?key.*?missing|API.*?key.*?must.*?be.*?set/i.test(errorDetails);
-            const isBillingError = /billing/i.test(errorDetails);
-            const isTokenLimitError = /token.*?limit|request.*?too.*?long|prompt.*?too.*?long/i.test(errorDetails);
-
-
-            let displayErrorMessage: string;
-
-            if (isMissingApiKeyError) {
-                displayErrorMessage = `La variabile d'ambiente API_KEY (o VITE_API_KEY) non è impostata. Assicurati che sia configurata correttamente nel tuo servizio di hosting (es. Netlify) e che il sito sia stato ripubblicato dopo l'aggiunta.`;
-            } else if (isInvalidApiKeyError) {
-                 displayErrorMessage = `La chiave API fornita non è valida o non ha i permessi necessari. Controlla la tua chiave nelle impostazioni di Google AI Studio e assicurati che l'API sia abilitata per il tuo progetto.\n\nNota: Se sei sicuro che la chiave sia corretta, verifica che sia stata copiata senza spazi extra e che il sito sia stato ripubblicato dopo ogni modifica.`;
-            } else if (isBillingError) {
-                displayErrorMessage = `Si è verificato un problema di fatturazione con il tuo account Google Cloud. Assicurati che la fatturazione sia abilitata per il progetto associato alla tua chiave API.`;
-            } else if (isTokenLimitError) {
-                displayErrorMessage = `La richiesta ha superato il limite di token. Questo non dovrebbe accadere con la nuova gestione della conoscenza. Se il problema persiste, contatta il supporto.`;
-            } else {
-                displayErrorMessage = `Si è verificato un errore inatteso. Riprova.\n\nDettagli: ${errorDetails}`;
+            // Stopped by the user: the partial answer is kept as it is.
+            if (abortController.signal.aborted) {
+                if (!isStreamComplete) {
+                    // Usage is reported at the end of the stream, so the output of an interrupted answer is estimated.
+                    updateUsage({ outputTokens: estimateTokens(fullText), estimated: true });
+                    setMessages(prev => prev.map((msg, i) => i === history.length + 1 ? { ...msg, stopped: true } : msg));
+                }
+                return;
             }
-            
+
+            console.error("LLM API Error:", err);
+            const displayErrorMessage = toDisplayErrorMessage(err);
             setError(displayErrorMessage);
-            setMessages(prev => {
-                const newMessages = [...prev];
-                if (newMessages.length > 0 && newMessages[newMessages.length - 1].role === 'model') {
-                    newMessages[newMessages.length - 1].text = displayErrorMessage;
-                }
-                return newMessages;
-            });
+            // A failed answer is not billed; only the requests that completed before it count.
+            updateUsage({ promptTokens: 0, contextTokens: 0 });
+            setMessages(prev => prev.map((msg, i) => i === history.length + 1 ? { ...msg, text: displayErrorMessage, failed: true } : msg));
         } finally {
+            const spent = spentFromUsage(messageUsage);
+            if (spent.tokens > 0) recordSpending(spent);
             setIsLoading(false);
-            stopStreamingRef.current = false;
+            setRetryStatus(null);
+            if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+        }
+    }, [settings, provider, knowledgeBaseChunks, chunksByDocument, bm25Index, vectorIndex, documents, conversationSummary, digest, usageLedger, recordSpending, conversationSnapshots, conversationTitle, conversationId, updateStoredConversation]);
+
+    const handleSendMessage = useCallback((newMessage: string) => {
+        if (!newMessage.trim()) return;
+        runTurn(newMessage, messages);
+    }, [runTurn, messages]);
+
+    /**
+     * Sends the last question again after a failed answer, replacing the failed answer.
+     */
+    const handleRetry = useCallback(() => {
+        const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+        if (lastUserIndex < 0) return;
+        const lastUser = messages[lastUserIndex];
+        runTurn(lastUser.text, messages.slice(0, lastUserIndex), undefined, lastUser.branches);
+    }, [runTurn, messages]);
+
+    /**
+     * Answers the last question again, retrieving context with a hand-written search query.
+     */
+    const handleOverrideSearchQuery = useCallback((searchQuery: string) => {
+        const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+        if (lastUserIndex < 0 || !searchQuery.trim()) return;
+        runTurn(messages[lastUserIndex].text, messages.slice(0, lastUserIndex), searchQuery.trim(), messages[lastUserIndex].branches);
+    }, [runTurn, messages]);
+
+    /**
+     * Drops the conversation summary if it covers messages from `index` on, which are about to be replaced.
+     */
+    const discardSummaryFrom = useCallback((index: number) => {
+        if (conversationSummary && conversationSummary.messageCount > index) {
+            setConversationSummary(undefined);
         }
-    }, [settings, knowledgeBaseChunks]);
+    }, [conversationSummary]);
+
+    /**
+     * Starts a new version of the conversation from the user message at `index`, asking `text` instead.
+     * The current version stays available from the message's version switcher.
+     */
+    const handleBranchFrom = useCallback((index: number, text: string) => {
+        const message = messages[index];
+        if (message?.role !== 'user' || !text.trim()) return;
+        const branches = message.branches ?? { versions: [[]], active: 0 };
+        const versions = branches.versions.map((version, i) => i === branches.active ? toStoredVersion(messages.slice(index)) : version);
+        discardSummaryFrom(index);
+        runTurn(text.trim(), messages.slice(0, index), undefined, { versions: [...versions, []], active: versions.length });
+    }, [runTurn, messages, discardSummaryFrom]);
+
+    /**
+     * Answers the last question again, keeping the previous answer as an earlier version.
+     */
+    const handleRegenerate = useCallback(() => {
+        const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+        if (lastUserIndex < 0) return;
+        handleBranchFrom(lastUserIndex, messages[lastUserIndex].text);
+    }, [handleBranchFrom, messages]);
+
+    /**
+     * Shows another version of the conversation from the user message at `index`.
+     */
+    const handleSwitchBranch = useCallback((index: number, version: number) => {
+        const branches = messages[index]?.branches;
+        if (!branches || version === branches.active || !branches.versions[version]?.length) return;
+        const versions = branches.versions.map((stored, i) => i === branches.active ? toStoredVersion(messages.slice(index)) : stored);
+        const [first, ...rest] = versions[version];
+        discardSummaryFrom(index);
+        setMessages([...messages.slice(0, index), { ...first, branches: { versions, active: version } }, ...rest]);
+    }, [messages, discardSummaryFrom]);
     
     const handleStopGeneration = () => {
-        stopStreamingRef.current = true;
+        abortControllerRef.current?.abort();
     };
 
-    const exportChatHistory = () => {
-        const formattedHistory = messages.map(msg => {
-            const prefix = msg.role === 'user' ? '[User]' : '[Assistant]';
-            let content = `${prefix}: ${msg.text}`;
-            return content;
-        }).join('\n\n--------------------------------------------------\n\n');
-
-        const blob = new Blob([formattedHistory], { type: 'text/plain;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        const timestamp = new Date().toISOString().replace(/:/g, '-');
-        link.download = `chat-history-${timestamp}.txt`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+    /**
+     * The current conversation as it is saved, for export.
+     */
+    const toCurrentConversation = (): Conversation => ({
+        id: conversationId,
+        title: conversationTitle,
+        pinned: isConversationPinned,
+        messages,
+        summary: conversationSummary,
+        snapshots: conversationSnapshots,
+        createdAt: conversationCreatedAt,
+        updatedAt: conversations.find(conversation => conversation.id === conversationId)?.updatedAt ?? Date.now(),
+    });
+
+    const handleExport = (format: ExportFormat) => {
+        const conversation = toCurrentConversation();
+        switch (format) {
+            case 'markdown':
+                downloadText(conversationToMarkdown(conversation), exportFileName(conversation, 'md'), 'text/markdown');
+                break;
+            case 'json':
+                downloadText(conversationToJson(conversation), exportFileName(conversation, 'json'), 'application/json');
+                break;
+            case 'html':
+                downloadText(conversationToHtml(conversation), exportFileName(conversation, 'html'), 'text/html');
+                break;
+            case 'pdf': {
+                // The page opens the print dialog itself, where it can be saved as PDF.
+                const url = URL.createObjectURL(new Blob([conversationToHtml(conversation, true)], { type: 'text/html;charset=utf-8' }));
+                if (!window.open(url, '_blank')) {
+                    setError("Il browser ha bloccato la finestra di stampa: consenti i popup per esportare in PDF.");
+                }
+                // The new window needs the URL until it has loaded.
+                setTimeout(() => URL.revokeObjectURL(url), 60000);
+                break;
+            }
+        }
+    };
+
+    /**
+     * Restores a conversation from a JSON export and opens it.
+     */
+    const handleImportConversation = async (file: File) => {
+        try {
+            const imported = parseConversationJson(await file.text());
+            // Importing a conversation that is already saved adds a copy rather than overwriting it.
+            const conversation = conversations.some(stored => stored.id === imported.id) ? { ...imported, id: crypto.randomUUID() } : imported;
+            await storage.saveConversation(conversation);
+            setConversations(prev => [conversation, ...prev]);
+            openConversation(conversation);
+            setError(null);
+            refreshStorageUsage();
+        } catch (e) {
+            console.error("Conversation import failed", e);
+            setError(`Impossibile importare la conversazione: ${e instanceof Error ? e.message : String(e)}`);
+        }
     };
     
     const handleClearChatRequest = () => {
-        setIsConfirmDialogOpen(true);
+        setPendingDeletionId(conversationId);
+    };
+
+    /**
+     * Starts an empty conversation; the current one stays in the history if it has a question.
+     */
+    const handleNewConversation = () => {
+        setConversationId(crypto.randomUUID());
+        setConversationCreatedAt(Date.now());
+        setConversationSummary(undefined);
+        setConversationTitle(undefined);
+        setIsConversationPinned(false);
+        setConversationSnapshots(NO_SNAPSHOTS);
+        setMessages([createGreeting(documents.length > 0)]);
+        setError(null);
     };
 
-    const performClearChat = () => {
-        const kbExists = !!localStorage.getItem('chatchok-knowledge-base');
-        const initialText = kbExists
-            ? "Buongiorno! Sono il tuo assistente di conoscenza. La base di conoscenza è carica, fai pure le tue domande."
-            : "Buongiorno! Sono il tuo assistente. Per iniziare, carica una base di conoscenza dal pannello delle impostazioni a sinistra.";
-        
-        setMessages([{ role: 'model', text: initialText }]);
-        setTotalTokensUsed(0);
+    const handleSelectConversation = (id: string) => {
+        if (isLoading || id === conversationId) return;
+        const conversation = conversations.find(stored => stored.id === id);
+        if (!conversation) return;
+        openConversation(conversation);
         setError(null);
-        setIsConfirmDialogOpen(false);
+    };
+
+    const handleRenameConversation = (id: string, title: string) => {
+        if (id === conversationId) setConversationTitle(title);
+        else updateStoredConversation(id, { title });
+    };
+
+    const handleTogglePinConversation = (id: string) => {
+        if (id === conversationId) setIsConversationPinned(pinned => !pinned);
+        else updateStoredConversation(id, { pinned: !conversations.find(stored => stored.id === id)?.pinned });
+    };
+
+    const performDeleteConversation = () => {
+        if (!pendingDeletionId) return;
+        storage.deleteConversation(pendingDeletionId).catch(e => console.error("Failed to delete conversation", e));
+        setConversations(prev => prev.filter(conversation => conversation.id !== pendingDeletionId));
+        if (pendingDeletionId === conversationId) {
+            abortControllerRef.current?.abort();
+            handleNewConversation();
+        }
+        setPendingDeletionId(null);
     };
     
+    /**
+     * Builds the digest of the knowledge base in the background, replacing the previous one when it completes.
+     */
+    const handleGenerateDigest = useCallback(async () => {
+        if (digestAbortControllerRef.current) return;
+        if (budgetStatus.level === 'blocked') {
+            setError(describeBudgetStatus(budgetStatus));
+            return;
+        }
+        const abortController = new AbortController();
+        digestAbortControllerRef.current = abortController;
+        setError(null);
+        const model = budgetStatus.level === 'warning' ? economySettings(settings).model : settings.model;
+        const meteredProvider = createMeteredProvider(createRetryingProvider(provider), spent => recordSpending(spentFromTokenUsage(spent, model)));
+        try {
+            const built = await buildKnowledgeDigest(meteredProvider, documents, chunksByDocument, model, setDigestProgress, abortController.signal);
+            setDigest(built);
+            await storage.saveDigest(built);
+        } catch (e) {
+            if (!abortController.signal.aborted) {
+                console.error("Digest generation failed", e);
+                setError(`Impossibile generare il digest della base di conoscenza: ${e instanceof Error ? e.message : String(e)}`);
+            }
+        } finally {
+            digestAbortControllerRef.current = null;
+            setDigestProgress(null);
+        }
+    }, [provider, documents, chunksByDocument, settings, budgetStatus, recordSpending]);
+
+    const handleCancelDigest = () => {
+        digestAbortControllerRef.current?.abort();
+    };
+
+    const handleDigestChange = useCallback((updated: KnowledgeDigest) => {
+        setDigest(updated);
+        storage.saveDigest(updated).catch(e => console.error("Failed to save digest", e));
+    }, []);
+
     const handleClearKnowledgeBase = () => {
-        setKnowledgeBase('');
-        setKnowledgeBaseChunks([]);
-        localStorage.removeItem('chatchok-knowledge-base');
+        digestAbortControllerRef.current?.abort();
+        setDocuments([]);
+        setChunksByDocument({});
+        setDigest(null);
+        storage.clearKnowledgeBase()
+            .then(refreshStorageUsage)
+            .catch(e => console.error("Failed to clear knowledge base", e));
+    };
+
+    const conversationUsage = useMemo(() => sumUsage(messages), [messages]);
+    const pendingDeletion = pendingDeletionId === conversationId
+        ? { title: conversationTitle, messages }
+        : conversations.find(conversation => conversation.id === pendingDeletionId);
+    const pendingDeletionTitle = pendingDeletion ? displayConversationTitle(pendingDeletion) : '';
+
+    // The selected match stays within the matches when they change, e.g. as another conversation is opened.
+    const currentMatch = Math.min(activeMatch, Math.max(searchMatches.length - 1, 0));
+
+    const handleSearchQueryChange = (query: string) => {
+        setSearchQuery(query);
+        setActiveMatch(0);
+    };
+
+    const closeSearchDialog = useCallback(() => setIsSearchDialogOpen(false), []);
+
+    const handleMatchesChange = useCallback((messageIndexes: number[]) => {
+        setSearchMatches(messageIndexes);
+        const target = pendingMatchMessageRef.current;
+        if (target === null) return;
+        pendingMatchMessageRef.current = null;
+        const index = messageIndexes.indexOf(target);
+        if (index >= 0) setActiveMatch(index);
+    }, []);
+
+    const handleNextMatch = () => {
+        if (searchMatches.length > 0) setActiveMatch((currentMatch + 1) % searchMatches.length);
+    };
+
+    const handlePreviousMatch = () => {
+        if (searchMatches.length > 0) setActiveMatch((currentMatch - 1 + searchMatches.length) % searchMatches.length);
+    };
+
+    /**
+     * Opens the conversation of a global search result and scrolls to its message, with the query highlighted.
+     */
+    const handleOpenSearchResult = (result: ConversationSearchResult, query: string) => {
+        setIsSearchDialogOpen(false);
+        if (result.conversationId !== conversationId) {
+            const conversation = conversations.find(stored => stored.id === result.conversationId);
+            if (isLoading || !conversation) return;
+            openConversation(conversation);
+            setError(null);
+        }
+        setSearchQuery(query.trim());
+        setActiveMatch(0);
+        pendingMatchMessageRef.current = result.messageIndex;
+        setScrollTarget({ messageIndex: result.messageIndex });
     };
+    const lastTurnUsage = useMemo(() => [...messages].reverse().find(msg => msg.usage)?.usage, [messages]);
+    // Follow-ups of the last answer, or starter questions before the first question.
+    const suggestedQuestions = useMemo(() => {
+        if (!settings.suggestQuestions) return [];
+        const lastMessage = messages[messages.length - 1];
+        if (lastMessage?.role === 'model' && lastMessage.suggestions) return lastMessage.suggestions;
+        const hasQuestions = messages.some(msg => msg.role === 'user');
+        return !hasQuestions && starterQuestions?.fingerprint === fingerprint ? starterQuestions.questions : [];
+    }, [settings.suggestQuestions, messages, starterQuestions, fingerprint]);
 
-    const userMessagesCount = messages.filter(msg => msg.role === 'user').length;
+    const answerCounts = useMemo(() => {
+        const counts: Record<AnswerStatus, number> = { answered: 0, not_found: 0, off_topic: 0 };
+        for (const msg of messages) {
+            if (msg.assessment) counts[msg.assessment.status]++;
+        }
+        return counts;
+    }, [messages]);
 
 
     return (
-        <div className="flex h-screen bg-gray-800 text-white font-sans">
+        <div
+            className="flex h-screen bg-gray-800 text-white font-sans"
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            {isDraggingFiles && (
+                <div className="fixed inset-0 z-40 flex items-center justify-center bg-blue-900/40 border-4 border-dashed border-blue-400 pointer-events-none">
+                    <div className="flex items-center space-x-3 bg-gray-800 px-6 py-4 rounded-lg shadow-xl">
+                        <UploadIcon />
+                        <span className="text-lg font-semibold">Rilascia i file per aggiungerli alla base di conoscenza</span>
+                    </div>
+                </div>
+            )}
             <div className="flex w-full h-full">
                 {!isSimpleView && (
                     <SettingsPanel 
                         settings={settings} 
                         onSettingsChange={handleSettingsChange}
                         onLoadRemotePDF={handleLoadRemotePDF}
+                        onUploadFiles={handleUploadFiles}
+                        uploadReports={uploadReports}
+                        onDismissUploadReports={() => setUploadReports([])}
                         onClearKnowledgeBase={handleClearKnowledgeBase}
+                        documents={documents}
+                        onToggleDocument={handleToggleDocument}
+                        onDeleteDocument={handleDeleteDocument}
+                        onReloadDocument={handleReloadDocument}
+                        onOpenDocument={documentId => handleOpenSource({ documentId })}
+                        reloadingDocumentId={reloadingDocumentId}
+                        storageUsage={storageUsage}
+                        embeddingDocumentCount={embeddingDocumentIds.length}
                         isParsing={isParsing}
-                        knowledgeBaseTokens={Math.round(knowledgeBase.length / CHARS_PER_TOKEN)}
-                        sessionTokensUsed={totalTokensUsed}
-                        totalTokenLimit={TOTAL_TOKEN_LIMIT}
-                        userMessagesCount={userMessagesCount}
+                        knowledgeBaseTokens={documents.filter(doc => doc.enabled).reduce((sum, doc) => sum + doc.tokenEstimate, 0)}
+                        conversationUsage={conversationUsage}
+                        budgetSpending={budgetSpending}
+                        budgetStatus={budgetStatus}
+                        lastTurnUsage={lastTurnUsage}
+                        answerCounts={answerCounts}
+                        digest={digest}
+                        isDigestStale={digest !== null && digest.fingerprint !== fingerprint}
+                        digestProgress={digestProgress}
+                        onGenerateDigest={handleGenerateDigest}
+                        onCancelDigest={handleCancelDigest}
+                        onDigestChange={handleDigestChange}
+                        onOpenSource={handleOpenSource}
+                        canOpenDocument={canOpenDocument}
+                    />
+                )}
+                {!isSimpleView && (
+                    <ConversationSidebar
+                        conversations={conversations}
+                        activeId={conversationId}
+                        disabled={isLoading}
+                        onSelect={handleSelectConversation}
+                        onNew={handleNewConversation}
+                        onRename={handleRenameConversation}
+                        onTogglePin={handleTogglePinConversation}
+                        onDelete={setPendingDeletionId}
+                        onImport={handleImportConversation}
+                        onSearch={() => setIsSearchDialogOpen(true)}
                     />
                 )}
                 <div className="flex flex-col flex-1 bg-gray-900">
@@ -459,20 +1356,18 @@ const App: React.FC = () => {
                             <h1 className="text-xl font-semibold">ChatChok - Agente AI per esperienze cliente</h1>
                         </div>
                         <div className="flex items-center space-x-2 flex-grow justify-end">
-                            <div className="relative flex-grow max-w-xs">
-                                <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
-                                <input
-                                    type="text"
-                                    placeholder="Cerca nella cronologia..."
-                                    value={searchQuery}
-                                    onChange={(e) => setSearchQuery(e.target.value)}
-                                    className="w-full bg-gray-800/50 rounded-md pl-10 pr-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 border border-transparent focus:border-blue-500"
-                                />
-                            </div>
+                            <FindBar
+                                query={searchQuery}
+                                onQueryChange={handleSearchQueryChange}
+                                matchCount={searchMatches.length}
+                                activeMatch={currentMatch}
+                                onNext={handleNextMatch}
+                                onPrevious={handlePreviousMatch}
+                            />
                             {!isSimpleView && (
-                                <div className="flex items-center space-x-2 text-sm text-gray-400 p-2 rounded-md bg-gray-800/50" title="Token totali consumati in questa sessione">
+                                <div className="flex items-center space-x-2 text-sm text-gray-400 p-2 rounded-md bg-gray-800/50" title={`Token consumati in questa conversazione, costo ${formatEur(conversationUsage.cost)}`}>
                                     <TokenIcon />
-                                    <span>{totalTokensUsed.toLocaleString()}</span>
+                                    <span>{conversationUsage.totalTokens.toLocaleString()}</span>
                                 </div>
                             )}
                             <button
@@ -486,31 +1381,51 @@ const App: React.FC = () => {
                             <button
                                 onClick={handleClearChatRequest}
                                 className="p-2 rounded-md hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
-                                aria-label="Pulisci cronologia chat"
-                                title="Pulisci cronologia chat"
+                                aria-label="Elimina la conversazione"
+                                title="Elimina la conversazione"
                             >
                                 <TrashIcon />
                             </button>
-                            <button
-                                onClick={exportChatHistory}
-                                className="p-2 rounded-md hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
-                                aria-label="Esporta cronologia chat"
-                                title="Esporta cronologia chat"
-                            >
-                                <ExportIcon />
-                            </button>
+                            <ExportMenu onExport={handleExport} disabled={isLoading} />
                         </div>
                     </header>
                     <main className="flex-1 overflow-y-auto">
-                        <ChatWindow messages={messages} isLoading={isLoading} searchQuery={searchQuery} />
+                        <ChatWindow
+                            messages={messages}
+                            isLoading={isLoading}
+                            searchQuery={searchQuery}
+                            onOverrideSearchQuery={handleOverrideSearchQuery}
+                            onOpenSource={handleOpenSource}
+                            canOpenDocument={canOpenDocument}
+                            onRegenerate={handleRegenerate}
+                            onRetry={handleRetry}
+                            onEditMessage={handleBranchFrom}
+                            onSwitchBranch={handleSwitchBranch}
+                            snapshots={conversationSnapshots}
+                            knowledgeBaseFingerprint={fingerprint}
+                            activeMatch={currentMatch}
+                            onMatchesChange={handleMatchesChange}
+                            scrollTarget={scrollTarget}
+                        />
                     </main>
                     <footer className="p-4 bg-gray-900/80 backdrop-blur-sm border-t border-gray-700">
+                        {retryStatus && <RetryCountdown status={retryStatus} />}
+                        {!isLoading && (
+                            <SuggestedQuestions
+                                questions={suggestedQuestions}
+                                onSelect={handleSendMessage}
+                                disabled={isParsing || !isStorageReady}
+                            />
+                        )}
                         {error && <p className="text-red-500 text-center text-sm mb-2 whitespace-pre-wrap">{error}</p>}
+                        {budgetNotice && (
+                            <p className={`text-center text-sm mb-2 ${budgetStatus.level === 'blocked' ? 'text-red-400' : 'text-amber-400'}`}>{budgetNotice}</p>
+                        )}
                         <ChatInput
                             onSendMessage={handleSendMessage}
                             isLoading={isLoading}
                             onStopGeneration={handleStopGeneration}
-                            disabled={isLoading || isParsing}
+                            disabled={isLoading || isParsing || !isStorageReady || budgetStatus.level === 'blocked'}
                         />
                         {!isSimpleView && (
                             <p className="text-center text-xs text-gray-500 mt-3">
@@ -519,14 +1434,29 @@ const App: React.FC = () => {
                         )}
                     </footer>
                 </div>
+                {viewerDocument && (
+                    <DocumentViewer
+                        document={viewerDocument}
+                        target={viewerTarget}
+                        onClose={() => setViewerLocation(null)}
+                    />
+                )}
             </div>
 
+            {isSearchDialogOpen && (
+                <ConversationSearchDialog
+                    conversations={conversations}
+                    onSelect={handleOpenSearchResult}
+                    onClose={closeSearchDialog}
+                />
+            )}
+
             <ConfirmationDialog
-                isOpen={isConfirmDialogOpen}
-                onClose={() => setIsConfirmDialogOpen(false)}
-                onConfirm={performClearChat}
-                title="Conferma Cancellazione Chat"
-                message={"Sei sicuro di voler cancellare l'intera cronologia della chat?\nQuesta azione è irreversibile."}
+                isOpen={pendingDeletionId !== null}
+                onClose={() => setPendingDeletionId(null)}
+                onConfirm={performDeleteConversation}
+                title="Conferma Eliminazione Conversazione"
+                message={`Sei sicuro di voler eliminare la conversazione «${pendingDeletionTitle}»?\nQuesta azione è irreversibile.`}
                 cancelButtonText="Annulla"
                 confirmButtonText="Cancella"
             />
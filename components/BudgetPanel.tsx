@@ -0,0 +1,124 @@
+import React from 'react';
+import type { BudgetLimits, BudgetScope, Settings } from '../types';
+import type { BudgetStatus, SpentAmount } from '../utils/budget';
+import { BUDGET_SCOPE_LABELS, spentRatio } from '../utils/budget';
+import { formatEur } from '../utils/usage';
+
+interface BudgetPanelProps {
+    budgets: Settings['budgets'];
+    warningPercent: number;
+    spending: Record<BudgetScope, SpentAmount>;
+    status: BudgetStatus;
+    onSettingsChange: (newSettings: Partial<Settings>) => void;
+}
+
+const SCOPE_TITLES: Record<BudgetScope, string> = {
+    conversation: 'Conversazione',
+    daily: 'Oggi',
+    total: 'Complessivo',
+};
+
+const FIELD_CLASSES = 'w-full p-1.5 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600 text-xs font-mono';
+
+/**
+ * Number field saved when it loses focus; empty or invalid values disable the limit.
+ */
+const LimitField: React.FC<{
+    value: number;
+    step: number;
+    label: string;
+    onCommit: (value: number) => void;
+}> = ({ value, step, label, onCommit }) => (
+    <input
+        // Remounting on external changes resets the field to the current value.
+        key={value}
+        type="number"
+        min="0"
+        step={step}
+        defaultValue={value > 0 ? value : ''}
+        placeholder="nessuno"
+        onBlur={(e) => {
+            const parsed = parseFloat(e.target.value);
+            const newValue = Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+            if (newValue !== value) onCommit(newValue);
+        }}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className={FIELD_CLASSES}
+        aria-label={label}
+    />
+);
+
+/**
+ * Shows the spending of each budget against its limits and lets them be changed.
+ */
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ budgets, warningPercent, spending, status, onSettingsChange }) => {
+    const updateLimits = (scope: BudgetScope, changes: Partial<BudgetLimits>) => {
+        onSettingsChange({ budgets: { ...budgets, [scope]: { ...budgets[scope], ...changes } } });
+    };
+
+    return (
+        <div className="p-3 bg-gray-700/50 rounded-lg space-y-4 border border-gray-600">
+            <h3 className="text-sm font-semibold text-white">Budget</h3>
+
+            {(Object.keys(SCOPE_TITLES) as BudgetScope[]).map(scope => {
+                const spent = spending[scope];
+                const hasLimit = budgets[scope].maxTokens > 0 || budgets[scope].maxCost > 0;
+                const level = status.checks.find(check => check.scope === scope)?.level ?? 'ok';
+                const barColor = level === 'blocked' ? 'bg-red-500' : level === 'warning' ? 'bg-amber-500' : 'bg-blue-500';
+                return (
+                    <div key={scope} className="space-y-1 text-xs text-gray-400">
+                        <div className="flex justify-between">
+                            <span className="text-gray-300">{SCOPE_TITLES[scope]}</span>
+                            <span className={`font-mono ${level === 'blocked' ? 'text-red-400 font-semibold' : ''}`}>
+                                {spent.tokens.toLocaleString()} token · {formatEur(spent.cost)}
+                            </span>
+                        </div>
+                        {hasLimit && (
+                            <div className="w-full bg-gray-600 rounded-full h-2">
+                                <div
+                                    className={`h-2 rounded-full transition-all duration-500 ${barColor}`}
+                                    style={{ width: `${Math.min(100, spentRatio(spent, budgets[scope]) * 100)}%` }}
+                                ></div>
+                            </div>
+                        )}
+                        <div className="grid grid-cols-2 gap-2">
+                            <LimitField
+                                label={`Limite di token del budget ${BUDGET_SCOPE_LABELS[scope]}`}
+                                value={budgets[scope].maxTokens}
+                                step={1000}
+                                onCommit={maxTokens => updateLimits(scope, { maxTokens })}
+                            />
+                            <LimitField
+                                label={`Limite in euro del budget ${BUDGET_SCOPE_LABELS[scope]}`}
+                                value={budgets[scope].maxCost}
+                                step={0.5}
+                                onCommit={maxCost => updateLimits(scope, { maxCost })}
+                            />
+                        </div>
+                    </div>
+                );
+            })}
+
+            <div className="space-y-1 pt-3 border-t border-gray-600/50">
+                <label htmlFor="budgetWarningPercent" className="block text-xs font-medium text-gray-300">
+                    Modalità economica da: <span className="font-mono text-blue-400">{warningPercent}%</span> del limite
+                </label>
+                <input
+                    id="budgetWarningPercent"
+                    type="range"
+                    min="50"
+                    max="100"
+                    step="5"
+                    value={warningPercent}
+                    onChange={(e) => onSettingsChange({ budgetWarningPercent: parseInt(e.target.value, 10) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <p className="text-xs text-gray-500">
+                    Limiti in token (a sinistra) e in euro (a destra); lascia vuoto per non porre limiti. Oltre la soglia le risposte usano un modello più economico e meno frammenti; raggiunto il limite, le richieste vengono bloccate.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default BudgetPanel;
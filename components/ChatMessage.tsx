@@ -1,58 +1,272 @@
 
-import React, { useMemo } from 'react';
-import type { Message } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { AnswerStatus, ConversationSnapshot, Message, MessageBranches, MessageUsage, SourceLocation } from '../types';
 import BotIcon from './icons/BotIcon';
 import UserIcon from './icons/UserIcon';
+import RetrievalInspector from './RetrievalInspector';
+import CitationFootnotes from './CitationFootnotes';
+import MarkdownContent, { highlightText } from './MarkdownContent';
+import { formatEur, totalTokens, usageCost } from '../utils/usage';
 
 interface ChatMessageProps {
     message: Message;
     searchQuery: string;
     isStreaming?: boolean;
+    /** Set on the last user message only: re-runs its turn with a hand-written search query. */
+    onOverrideSearchQuery?: (searchQuery: string) => void;
+    onOpenSource?: (location: SourceLocation) => void;
+    /** Whether the original file of a document is kept, so that the document can be opened in the viewer. */
+    canOpenDocument?: (documentId: string) => boolean;
+    /** Set on the last answer only: answers its question again. */
+    onRegenerate?: () => void;
+    /** Set on the last answer only, when it failed: sends its question again in place of it. */
+    onRetry?: () => void;
+    /** Set on user messages: resends the message with a new text, starting a new version of the conversation. */
+    onEdit?: (text: string) => void;
+    onSwitchBranch?: (version: number) => void;
+    /** For model messages: the settings and knowledge base the answer was given with. */
+    snapshot?: ConversationSnapshot;
+    /** Fingerprint of the current knowledge base, to tell whether it changed since the answer. */
+    knowledgeBaseFingerprint?: string;
 }
 
-const escapeRegExp = (string: string) => {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); // $& means the whole matched string
+// Answers the model could not give from the knowledge base look different from regular ones.
+const STATUS_STYLES: Record<Exclude<AnswerStatus, 'answered'>, { bubble: string; label: string }> = {
+    not_found: {
+        bubble: 'bg-amber-900/40 border border-amber-600/60 rounded-r-lg rounded-bl-lg',
+        label: 'Informazione non presente nei documenti',
+    },
+    off_topic: {
+        bubble: 'bg-gray-800 border border-dashed border-gray-500 text-gray-300 rounded-r-lg rounded-bl-lg',
+        label: 'Domanda fuori tema',
+    },
 };
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, searchQuery, isStreaming }) => {
+// Answers below this confidence are flagged as uncertain.
+const LOW_CONFIDENCE = 0.5;
+// Answers with a smaller fraction of supported claims get a warning next to their grounding score.
+const LOW_GROUNDING = 0.8;
+
+/**
+ * Shows the query used to retrieve context for a user message, editable on the last question.
+ */
+const RetrievalQuery: React.FC<{
+    query: string;
+    onOverride?: (searchQuery: string) => void;
+}> = ({ query, onOverride }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+
+    if (draft !== null && onOverride) {
+        return (
+            <form
+                className="flex items-center space-x-1 mt-1"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    setDraft(null);
+                    onOverride(draft);
+                }}
+            >
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setDraft(null)}
+                    className="flex-1 min-w-0 px-2 py-1 text-xs bg-gray-700 rounded border border-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    aria-label="Query di ricerca"
+                    autoFocus
+                />
+                <button type="submit" disabled={!draft.trim()} className="px-2 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600">
+                    Cerca
+                </button>
+            </form>
+        );
+    }
+
+    return (
+        <p className="mt-1 text-xs text-gray-400 text-right">
+            Ricerca: <span className="italic">{query}</span>
+            {onOverride && (
+                <button
+                    onClick={() => setDraft(query)}
+                    className="ml-2 text-blue-400 hover:underline"
+                    title="Ripeti la risposta cercando con una query diversa"
+                >
+                    modifica
+                </button>
+            )}
+        </p>
+    );
+};
+
+/**
+ * Text area replacing a user message while it is edited.
+ */
+const MessageEditor: React.FC<{
+    initialText: string;
+    onSubmit: (text: string) => void;
+    onCancel: () => void;
+}> = ({ initialText, onSubmit, onCancel }) => {
+    const [text, setText] = useState(initialText);
+    const canSubmit = text.trim() !== '' && text.trim() !== initialText.trim();
+
+    return (
+        <form
+            className="space-y-2"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (canSubmit) onSubmit(text);
+            }}
+        >
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+                rows={Math.min(8, text.split('\n').length + 1)}
+                className="w-full min-w-[16rem] p-2 text-sm text-white bg-blue-700 rounded border border-blue-400 focus:outline-none focus:ring-1 focus:ring-white"
+                aria-label="Modifica la domanda"
+                autoFocus
+            />
+            <div className="flex justify-end space-x-2 text-xs">
+                <button type="button" onClick={onCancel} className="px-2 py-1 rounded hover:bg-blue-700">
+                    Annulla
+                </button>
+                <button type="submit" disabled={!canSubmit} className="px-2 py-1 rounded bg-white text-blue-700 font-semibold disabled:opacity-50">
+                    Invia
+                </button>
+            </div>
+        </form>
+    );
+};
+
+/**
+ * Moves between the versions of the conversation that start at an edited message.
+ */
+const BranchSwitcher: React.FC<{
+    branches: MessageBranches;
+    onSwitch?: (version: number) => void;
+}> = ({ branches, onSwitch }) => {
+    const { active, versions } = branches;
+    return (
+        <span className="inline-flex items-center space-x-1 font-mono">
+            <button
+                onClick={() => onSwitch?.(active - 1)}
+                disabled={!onSwitch || active === 0}
+                className="px-1 hover:text-white disabled:opacity-40"
+                aria-label="Versione precedente"
+            >
+                ‹
+            </button>
+            <span>{active + 1}/{versions.length}</span>
+            <button
+                onClick={() => onSwitch?.(active + 1)}
+                disabled={!onSwitch || active === versions.length - 1}
+                className="px-1 hover:text-white disabled:opacity-40"
+                aria-label="Versione successiva"
+            >
+                ›
+            </button>
+        </span>
+    );
+};
+
+/**
+ * Tokens and cost of an answer, with the breakdown in the tooltip.
+ */
+const UsageSummary: React.FC<{ usage: MessageUsage }> = ({ usage }) => {
+    const breakdown = [
+        `Modello: ${usage.model}`,
+        `Prompt: ${usage.promptTokens.toLocaleString()} token, di cui contesto ${usage.contextTokens.toLocaleString()}`,
+        `Risposta: ${usage.outputTokens.toLocaleString()} token`,
+        ...(usage.thinkingTokens > 0 ? [`Ragionamento: ${usage.thinkingTokens.toLocaleString()} token`] : []),
+        `Richieste accessorie: ${(usage.auxiliaryPromptTokens + usage.auxiliaryOutputTokens).toLocaleString()} token`,
+    ].join('\n');
+    return (
+        <span title={breakdown}>
+            {usage.estimated ? '~' : ''}{totalTokens(usage).toLocaleString()} token · {formatEur(usageCost(usage))}
+        </span>
+    );
+};
+
+/**
+ * The model and documents an answer was given with, with the full settings in the tooltip.
+ */
+const SnapshotSummary: React.FC<{ snapshot: ConversationSnapshot; knowledgeBaseFingerprint?: string }> = ({ snapshot, knowledgeBaseFingerprint }) => {
+    const { settings, knowledgeBase } = snapshot;
+    const isOutdated = knowledgeBaseFingerprint !== undefined && knowledgeBase.fingerprint !== knowledgeBaseFingerprint;
+    const details = [
+        `Modello: ${settings.model} (${settings.provider}), temperatura ${settings.temperature}`,
+        `Frammenti: fino a ${settings.retrievalTopK} da ${settings.chunkMaxTokens} token, ricerca ${settings.semanticSearch ? 'ibrida' : 'per parole chiave'}`,
+        `Memoria: ${settings.historyTokenBudget > 0 ? `${settings.historyTokenBudget} token` : 'disattivata'}`,
+        'Documenti:',
+        ...knowledgeBase.documents.map(doc => `- ${doc.title} (caricato il ${new Date(doc.loadedAt).toLocaleString('it-IT')})`),
+    ].join('\n');
+    return (
+        <span title={details} className={isOutdated ? 'text-amber-400/80' : undefined}>
+            {settings.model} · {knowledgeBase.documents.length} {knowledgeBase.documents.length === 1 ? 'documento' : 'documenti'}
+            {isOutdated && ' · base di conoscenza cambiata da allora'}
+        </span>
+    );
+};
+
+const ChatMessage: React.FC<ChatMessageProps> = ({
+    message,
+    searchQuery,
+    isStreaming,
+    onOverrideSearchQuery,
+    onOpenSource,
+    canOpenDocument,
+    onRegenerate,
+    onRetry,
+    onEdit,
+    onSwitchBranch,
+    snapshot,
+    knowledgeBaseFingerprint,
+}) => {
     const isModel = message.role === 'model';
 
     const containerClasses = isModel
         ? 'flex justify-start items-start space-x-3'
         : 'flex justify-end items-start space-x-3';
     
+    const status = isModel ? message.assessment?.status : undefined;
+    const statusStyle = status && status !== 'answered' ? STATUS_STYLES[status] : undefined;
+    const confidence = message.assessment?.confidence;
+    const isUncertain = status === 'answered' && confidence !== undefined && confidence < LOW_CONFIDENCE;
+    const grounding = isModel ? message.grounding : undefined;
+    const unsupportedClaims = useMemo(
+        () => grounding?.claims.filter(claim => !claim.supported).map(claim => claim.text),
+        [grounding]
+    );
+
     const bubbleClasses = isModel
-        ? 'bg-gray-700 rounded-r-lg rounded-bl-lg'
+        ? statusStyle?.bubble ?? 'bg-gray-700 rounded-r-lg rounded-bl-lg'
         : 'bg-blue-600 text-white rounded-l-lg rounded-br-lg';
 
-    const highlightedText = useMemo(() => {
-        const query = searchQuery.trim();
-        if (!query) {
-             return message.text.split('\n').map((line, index, arr) => (
-                <React.Fragment key={index}>
-                    {line}
-                    {index < arr.length - 1 && <br />}
-                </React.Fragment>
-            ));
-        }
-
-        const escapedQuery = escapeRegExp(query);
-        const parts = message.text.split(new RegExp(`(${escapedQuery})`, 'gi'));
-
-        return parts.map((part, index) => {
-            const partWithBreaks = part.split('\n').map((line, i, arr) => (
-                <React.Fragment key={i}>
-                    {line}
-                    {i < arr.length - 1 && <br />}
-                </React.Fragment>
-            ));
-
-            if (part.toLowerCase() === query.toLowerCase()) {
-                return <mark key={index} className="bg-yellow-400 text-black rounded px-1 py-0.5">{partWithBreaks}</mark>;
-            }
-            return partWithBreaks;
-        });
-    }, [message.text, searchQuery]);
+    const [activeSourceNumber, setActiveSourceNumber] = useState<number | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const sources = isModel ? message.sources : undefined;
+
+    const renderCitation = useMemo(() => {
+        if (!sources) return undefined;
+
+        const knownNumbers = new Set(sources.map(source => source.number));
+        return (numbers: number[], key: React.Key) => (
+            <sup key={key} className="whitespace-nowrap">
+                {numbers.map(number => (
+                    <button
+                        key={number}
+                        onClick={() => setActiveSourceNumber(active => active === number ? null : number)}
+                        className={knownNumbers.has(number)
+                            ? 'mx-0.5 px-1 rounded bg-gray-600 text-blue-300 hover:bg-gray-500'
+                            : 'mx-0.5 px-1 rounded bg-red-900/60 text-red-300 line-through'}
+                        title={knownNumbers.has(number) ? 'Mostra la fonte' : 'Questa fonte non è stata inviata al modello'}
+                    >
+                        {number}
+                    </button>
+                ))}
+            </sup>
+        );
+    }, [sources]);
 
     return (
         <div className={containerClasses}>
@@ -63,11 +277,95 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, searchQuery, isStrea
             )}
             <div className="flex flex-col">
                 <div className={`p-3 max-w-lg ${bubbleClasses}`}>
-                    <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                        {highlightedText}
-                        {isStreaming && <span className="inline-block w-2 h-4 bg-white animate-pulse ml-1 align-bottom" />}
-                    </p>
+                    {statusStyle && (
+                        <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">{statusStyle.label}</p>
+                    )}
+                    {isModel ? (
+                        <MarkdownContent
+                            text={message.text}
+                            searchQuery={searchQuery}
+                            isStreaming={isStreaming}
+                            renderCitation={renderCitation}
+                            unsupportedClaims={unsupportedClaims}
+                        />
+                    ) : isEditing && onEdit ? (
+                        <MessageEditor
+                            initialText={message.text}
+                            onSubmit={(text) => {
+                                setIsEditing(false);
+                                onEdit(text);
+                            }}
+                            onCancel={() => setIsEditing(false)}
+                        />
+                    ) : (
+                        <p className="text-sm leading-relaxed whitespace-pre-wrap">{highlightText(message.text, searchQuery)}</p>
+                    )}
+                    {isStreaming && <span className="inline-block w-2 h-4 bg-white animate-pulse ml-1 align-bottom" />}
                 </div>
+                {isModel && (message.stopped || onRegenerate || onRetry) && (
+                    <div className="mt-1 flex items-center space-x-3 text-xs text-gray-400">
+                        {message.stopped && <span className="italic">Risposta interrotta</span>}
+                        {onRetry && (
+                            <button onClick={onRetry} className="text-blue-400 hover:underline" title="Invia di nuovo la stessa domanda">
+                                Riprova
+                            </button>
+                        )}
+                        {onRegenerate && (
+                            <button onClick={onRegenerate} className="text-blue-400 hover:underline" title="Genera una nuova risposta alla stessa domanda">
+                                Rigenera
+                            </button>
+                        )}
+                    </div>
+                )}
+                {isUncertain && !isStreaming && (
+                    <p className="mt-1 text-xs text-amber-400" title="Stima del modello su quanto la risposta sia supportata dai documenti">
+                        Risposta incerta: affidabilità {Math.round(confidence * 100)}%
+                    </p>
+                )}
+                {grounding && !isStreaming && (
+                    <p
+                        className={`mt-1 text-xs ${grounding.score < LOW_GROUNDING ? 'text-red-400' : 'text-gray-400'}`}
+                        title={grounding.method === 'llm'
+                            ? 'Ogni affermazione è stata verificata da un modello sui frammenti inviati'
+                            : 'Ogni affermazione è stata confrontata con le parole dei frammenti inviati'}
+                    >
+                        Aderenza alle fonti: {grounding.claims.length - (unsupportedClaims?.length ?? 0)}/{grounding.claims.length} affermazioni supportate ({Math.round(grounding.score * 100)}%)
+                    </p>
+                )}
+                {sources && !isStreaming && (
+                    <CitationFootnotes
+                        text={message.text}
+                        sources={sources}
+                        activeNumber={activeSourceNumber}
+                        onSelect={setActiveSourceNumber}
+                        onOpenSource={onOpenSource}
+                        canOpenDocument={canOpenDocument}
+                    />
+                )}
+                {isModel && message.retrieval && !isStreaming && <RetrievalInspector trace={message.retrieval} onOpenSource={onOpenSource} canOpenDocument={canOpenDocument} />}
+                {isModel && (message.usage || snapshot) && !isStreaming && (
+                    <p className="mt-1 flex flex-wrap gap-x-3 text-xs text-gray-500">
+                        {message.usage && <UsageSummary usage={message.usage} />}
+                        {snapshot && <SnapshotSummary snapshot={snapshot} knowledgeBaseFingerprint={knowledgeBaseFingerprint} />}
+                    </p>
+                )}
+                {!isModel && (message.searchQuery || onOverrideSearchQuery) && (
+                    <RetrievalQuery query={message.searchQuery ?? message.text} onOverride={onOverrideSearchQuery} />
+                )}
+                {!isModel && !isEditing && (message.branches || onEdit) && (
+                    <div className="mt-1 flex items-center justify-end space-x-3 text-xs text-gray-400">
+                        {message.branches && <BranchSwitcher branches={message.branches} onSwitch={onSwitchBranch} />}
+                        {onEdit && (
+                            <button
+                                onClick={() => setIsEditing(true)}
+                                className="text-blue-400 hover:underline"
+                                title="Modifica la domanda e riparti da qui: la conversazione attuale resta disponibile come versione precedente"
+                            >
+                                Modifica domanda
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
              {!isModel && (
                 <div className="w-8 h-8 flex-shrink-0 bg-gray-600 rounded-full flex items-center justify-center self-start">
@@ -1,16 +1,53 @@
 
-import React, { useEffect, useRef } from 'react';
-import type { Message } from '../types';
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { ConversationSnapshot, Message, SourceLocation } from '../types';
 import ChatMessage from './ChatMessage';
 
 interface ChatWindowProps {
     messages: Message[];
     isLoading: boolean;
     searchQuery: string;
+    onOverrideSearchQuery?: (searchQuery: string) => void;
+    onOpenSource?: (location: SourceLocation) => void;
+    canOpenDocument?: (documentId: string) => boolean;
+    onRegenerate?: () => void;
+    /** Resends the last question after its answer failed. */
+    onRetry?: () => void;
+    onEditMessage?: (index: number, text: string) => void;
+    onSwitchBranch?: (index: number, version: number) => void;
+    /** The setups the conversation was held with, which answers refer to. */
+    snapshots?: ConversationSnapshot[];
+    knowledgeBaseFingerprint?: string;
+    /** Position, among the highlighted matches of `searchQuery`, of the one selected in the find bar. */
+    activeMatch?: number;
+    /** Receives the message index of each highlighted match, in order, whenever they change. */
+    onMatchesChange?: (messageIndexes: number[]) => void;
+    /** Scrolls to a message each time a new target is set. */
+    scrollTarget?: { messageIndex: number } | null;
 }
 
-const ChatWindow: React.FC<ChatWindowProps> = ({ messages, isLoading, searchQuery }) => {
+const ChatWindow: React.FC<ChatWindowProps> = ({
+    messages,
+    isLoading,
+    searchQuery,
+    onOverrideSearchQuery,
+    onOpenSource,
+    canOpenDocument,
+    onRegenerate,
+    onRetry,
+    onEditMessage,
+    onSwitchBranch,
+    snapshots,
+    knowledgeBaseFingerprint,
+    activeMatch = 0,
+    onMatchesChange,
+    scrollTarget,
+}) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const matchesRef = useRef<HTMLElement[]>([]);
+    const reportedMatchesRef = useRef<{ key: string; scrollTarget: ChatWindowProps['scrollTarget'] } | null>(null);
+    const snapshotsById = useMemo(() => new Map((snapshots ?? []).map(snapshot => [snapshot.id, snapshot])), [snapshots]);
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -22,17 +59,59 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ messages, isLoading, searchQuer
         scrollToBottom();
     }, [messages, isLoading]);
 
+    // The highlights are rendered by the messages themselves; collect them from the DOM, in reading order.
+    // A new scroll target reports them again, for the caller to select the first match of the target message.
+    useEffect(() => {
+        const marks = Array.from<HTMLElement>(containerRef.current?.querySelectorAll<HTMLElement>('mark[data-search-match]') ?? []);
+        matchesRef.current = marks;
+        const messageIndexes = marks.map(mark => Number(mark.closest<HTMLElement>('[data-message-index]')?.dataset.messageIndex));
+        const key = messageIndexes.join(',');
+        const reported = reportedMatchesRef.current;
+        if (reported && reported.key === key && reported.scrollTarget === scrollTarget) return;
+        reportedMatchesRef.current = { key, scrollTarget };
+        onMatchesChange?.(messageIndexes);
+    }, [messages, searchQuery, scrollTarget, onMatchesChange]);
+
+    useEffect(() => {
+        matchesRef.current.forEach((mark, i) => {
+            mark.dataset.active = String(i === activeMatch);
+        });
+    }, [messages, searchQuery, activeMatch]);
+
+    useEffect(() => {
+        matchesRef.current[activeMatch]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [searchQuery, activeMatch]);
+
+    useEffect(() => {
+        if (!scrollTarget) return;
+        containerRef.current
+            ?.querySelector(`[data-message-index="${scrollTarget.messageIndex}"]`)
+            ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [scrollTarget]);
+
     const lastMessageIsModel = messages.length > 0 && messages[messages.length - 1].role === 'model';
+    const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+    const canAnswerAgain = !isLoading && lastMessageIsModel && lastUserIndex >= 0;
 
     return (
-        <div className="p-4 space-y-4">
+        <div ref={containerRef} className="p-4 space-y-4">
             {messages.map((msg, index) => (
-                <ChatMessage 
-                    key={index} 
-                    message={msg} 
-                    searchQuery={searchQuery}
-                    isStreaming={isLoading && lastMessageIsModel && index === messages.length - 1}
-                />
+                <div key={index} data-message-index={index}>
+                    <ChatMessage 
+                        message={msg} 
+                        searchQuery={searchQuery}
+                        isStreaming={isLoading && lastMessageIsModel && index === messages.length - 1}
+                        onOpenSource={onOpenSource}
+                        canOpenDocument={canOpenDocument}
+                        onOverrideSearchQuery={!isLoading && index === lastUserIndex ? onOverrideSearchQuery : undefined}
+                        onRegenerate={canAnswerAgain && index === messages.length - 1 && !msg.failed ? onRegenerate : undefined}
+                        onRetry={canAnswerAgain && index === messages.length - 1 && msg.failed ? onRetry : undefined}
+                        onEdit={!isLoading && msg.role === 'user' && onEditMessage ? text => onEditMessage(index, text) : undefined}
+                        onSwitchBranch={!isLoading && msg.branches && onSwitchBranch ? version => onSwitchBranch(index, version) : undefined}
+                        snapshot={msg.snapshotId ? snapshotsById.get(msg.snapshotId) : undefined}
+                        knowledgeBaseFingerprint={knowledgeBaseFingerprint}
+                    />
+                </div>
             ))}
             <div ref={messagesEndRef} />
         </div>
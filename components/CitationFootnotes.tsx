@@ -0,0 +1,96 @@
+import React from 'react';
+import type { MessageSource, SourceLocation } from '../types';
+import { getCitedNumbers, findUnknownCitations } from '../utils/citations';
+import { formatPageRange } from '../utils/retrieval';
+import SourceIcon from './icons/SourceIcon';
+
+interface CitationFootnotesProps {
+    text: string;
+    sources: MessageSource[];
+    /** The source whose passage is shown, if any. */
+    activeNumber: number | null;
+    onSelect: (number: number | null) => void;
+    onOpenSource?: (location: SourceLocation) => void;
+    /** Whether the original file of a document is kept, so that the document can be opened in the viewer. */
+    canOpenDocument?: (documentId: string) => boolean;
+}
+
+// Long passages are cut in the footnote; the full chunk is in the retrieval inspector and the document itself.
+const PASSAGE_MAX_CHARS = 800;
+
+/**
+ * Lists the sources cited in an answer, shows the passage of the selected one and flags citations
+ * to chunks that were never sent to the model.
+ */
+const CitationFootnotes: React.FC<CitationFootnotesProps> = ({ text, sources, activeNumber, onSelect, onOpenSource, canOpenDocument }) => {
+    const citedNumbers = new Set(getCitedNumbers(text));
+    const citedSources = sources.filter(source => citedNumbers.has(source.number));
+    const unknownNumbers = findUnknownCitations(text, sources);
+    const activeSource = sources.find(source => source.number === activeNumber);
+
+    if (citedSources.length === 0 && unknownNumbers.length === 0) return null;
+
+    return (
+        <div className="mt-1 max-w-lg text-xs space-y-1">
+            {citedSources.length > 0 && (
+                <ol className="flex flex-wrap gap-1">
+                    {citedSources.map(source => {
+                        const pages = formatPageRange(source);
+                        return (
+                            <li key={source.number}>
+                                <button
+                                    onClick={() => onSelect(activeNumber === source.number ? null : source.number)}
+                                    className={`flex items-center space-x-1 px-2 py-0.5 rounded-full border ${activeNumber === source.number ? 'border-blue-400 bg-blue-900/40 text-blue-200' : 'border-gray-600 text-gray-400 hover:text-gray-200'}`}
+                                    title={source.documentTitle}
+                                >
+                                    <span className="font-semibold">[{source.number}]</span>
+                                    <span className="truncate max-w-[12rem]">{source.documentTitle}{pages ? `, ${pages}` : ''}</span>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+
+            {activeSource && (
+                <div className="p-2 bg-gray-800 rounded-lg border border-gray-700 text-gray-300">
+                    <div className="flex items-center space-x-2 font-semibold text-gray-200">
+                        <SourceIcon className="w-4 h-4 flex-shrink-0" />
+                        <span>
+                            [{activeSource.number}] {activeSource.documentTitle}
+                            {formatPageRange(activeSource) ? `, ${formatPageRange(activeSource)}` : ''}
+                        </span>
+                    </div>
+                    {activeSource.headingPath.length > 0 && (
+                        <div className="text-gray-500 mt-0.5">{activeSource.headingPath.join(' › ')}</div>
+                    )}
+                    <blockquote className="mt-2 pl-2 border-l-2 border-blue-500 whitespace-pre-wrap text-gray-400">
+                        {activeSource.text.length > PASSAGE_MAX_CHARS ? `${activeSource.text.slice(0, PASSAGE_MAX_CHARS)}…` : activeSource.text}
+                    </blockquote>
+                    {onOpenSource && canOpenDocument?.(activeSource.documentId) !== false && (
+                        <button
+                            onClick={() => onOpenSource({
+                                documentId: activeSource.documentId,
+                                chunkId: activeSource.chunkId,
+                                pageStart: activeSource.pageStart,
+                                pageEnd: activeSource.pageEnd,
+                                passage: activeSource.text,
+                            })}
+                            className="mt-2 text-blue-400 hover:underline"
+                        >
+                            Apri nel documento
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {unknownNumbers.length > 0 && (
+                <p className="text-red-400">
+                    ⚠ {unknownNumbers.length === 1 ? 'La citazione' : 'Le citazioni'} {unknownNumbers.map(n => `[${n}]`).join(', ')} non {unknownNumbers.length === 1 ? 'corrisponde' : 'corrispondono'} a nessun frammento inviato al modello.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default CitationFootnotes;
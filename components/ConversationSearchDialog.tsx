@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Conversation } from '../types';
+import type { ConversationSearchFilters, ConversationSearchResult } from '../utils/conversationSearch';
+import { DEFAULT_SEARCH_FILTERS, MAX_SEARCH_RESULTS, searchConversations } from '../utils/conversationSearch';
+import { displayConversationTitle } from '../utils/conversations';
+import { highlightText } from './MarkdownContent';
+import SearchIcon from './icons/SearchIcon';
+
+interface ConversationSearchDialogProps {
+    conversations: Conversation[];
+    /** Opens the conversation of a result at its message, with the query highlighted. */
+    onSelect: (result: ConversationSearchResult, query: string) => void;
+    onClose: () => void;
+}
+
+const FIELD_CLASSES = 'p-1.5 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600 text-xs';
+
+/**
+ * Searches the messages of every saved conversation, filtered by role, date and answers without sources.
+ */
+const ConversationSearchDialog: React.FC<ConversationSearchDialogProps> = ({ conversations, onSelect, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [filters, setFilters] = useState<ConversationSearchFilters>(DEFAULT_SEARCH_FILTERS);
+    const results = useMemo(() => searchConversations(conversations, query, filters), [conversations, query, filters]);
+    const titles = useMemo(() => new Map(conversations.map(conversation => [conversation.id, displayConversationTitle(conversation)])), [conversations]);
+
+    const updateFilters = (changes: Partial<ConversationSearchFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [onClose]);
+
+    const isSearching = query.trim() !== '' || JSON.stringify(filters) !== JSON.stringify(DEFAULT_SEARCH_FILTERS);
+
+    return (
+        <div
+            className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-start justify-center z-50 pt-16"
+            aria-modal="true"
+            role="dialog"
+            aria-labelledby="conversation-search-title"
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-800 rounded-lg w-full max-w-2xl mx-4 shadow-xl border border-gray-700 flex flex-col max-h-[80vh]"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="p-4 border-b border-gray-700 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h2 id="conversation-search-title" className="text-lg font-semibold text-white">Cerca nelle conversazioni</h2>
+                        <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Chiudi">
+                            &times;
+                        </button>
+                    </div>
+                    <div className="relative">
+                        <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+                        <input
+                            type="text"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Testo da cercare..."
+                            autoFocus
+                            className="w-full bg-gray-700 rounded-md pl-10 pr-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600"
+                            aria-label="Testo da cercare"
+                        />
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-gray-300">
+                        <select
+                            value={filters.role}
+                            onChange={(e) => updateFilters({ role: e.target.value as ConversationSearchFilters['role'] })}
+                            className={FIELD_CLASSES}
+                            aria-label="Autore dei messaggi"
+                        >
+                            <option value="all">Domande e risposte</option>
+                            <option value="user">Solo domande</option>
+                            <option value="model">Solo risposte</option>
+                        </select>
+                        <label className="flex items-center space-x-1">
+                            <span>Dal</span>
+                            <input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => updateFilters({ from: e.target.value })} className={FIELD_CLASSES} />
+                        </label>
+                        <label className="flex items-center space-x-1">
+                            <span>al</span>
+                            <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => updateFilters({ to: e.target.value })} className={FIELD_CLASSES} />
+                        </label>
+                        <label className="flex items-center space-x-1 cursor-pointer" title="Risposte date senza alcuna fonte o senza trovare l'informazione nei documenti">
+                            <input
+                                type="checkbox"
+                                checked={filters.unsourcedOnly}
+                                onChange={(e) => updateFilters({ unsourcedOnly: e.target.checked })}
+                                className="accent-blue-500"
+                            />
+                            <span>Solo risposte senza fonti</span>
+                        </label>
+                    </div>
+                </div>
+                <div className="flex-1 overflow-y-auto p-2">
+                    {!isSearching && (
+                        <p className="p-3 text-sm text-gray-500">Scrivi un testo o scegli un filtro per cercare nei messaggi delle conversazioni salvate.</p>
+                    )}
+                    {isSearching && results.length === 0 && (
+                        <p className="p-3 text-sm text-gray-500">Nessun messaggio trovato.</p>
+                    )}
+                    {results.length > 0 && (
+                        <p className="px-3 py-1 text-xs text-gray-500">
+                            {results.length === MAX_SEARCH_RESULTS ? `Primi ${MAX_SEARCH_RESULTS} messaggi trovati` : `${results.length} ${results.length === 1 ? 'messaggio trovato' : 'messaggi trovati'}`}
+                        </p>
+                    )}
+                    <ul className="space-y-1">
+                        {results.map(result => (
+                            <li key={`${result.conversationId}-${result.messageIndex}`}>
+                                <button
+                                    onClick={() => onSelect(result, query)}
+                                    className="w-full text-left p-3 rounded-md hover:bg-gray-700"
+                                >
+                                    <span className="flex justify-between gap-3 text-xs text-gray-400">
+                                        <span className="truncate font-medium text-gray-300">{titles.get(result.conversationId)}</span>
+                                        <span className="flex-shrink-0">
+                                            {result.message.role === 'user' ? 'Domanda' : 'Risposta'} · {new Date(result.date).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}
+                                        </span>
+                                    </span>
+                                    <span className="block mt-1 text-sm text-gray-200">{highlightText(result.excerpt, query)}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ConversationSearchDialog;
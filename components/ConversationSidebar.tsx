@@ -0,0 +1,179 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { Conversation } from '../types';
+import { displayConversationTitle, sortConversations } from '../utils/conversations';
+import PinIcon from './icons/PinIcon';
+import SearchIcon from './icons/SearchIcon';
+
+interface ConversationSidebarProps {
+    conversations: Conversation[];
+    activeId: string;
+    /** Switching is disabled while an answer is being written. */
+    disabled: boolean;
+    onSelect: (conversationId: string) => void;
+    onNew: () => void;
+    onRename: (conversationId: string, title: string) => void;
+    onTogglePin: (conversationId: string) => void;
+    onDelete: (conversationId: string) => void;
+    /** Restores a conversation from a JSON export. */
+    onImport: (file: File) => void;
+    /** Opens the search across all conversations. */
+    onSearch: () => void;
+}
+
+/**
+ * Inline field replacing the title of a conversation while it is renamed.
+ */
+const TitleEditor: React.FC<{
+    initialTitle: string;
+    onSave: (title: string) => void;
+    onCancel: () => void;
+}> = ({ initialTitle, onSave, onCancel }) => (
+    <input
+        type="text"
+        defaultValue={initialTitle}
+        autoFocus
+        onFocus={(e) => e.target.select()}
+        onBlur={(e) => {
+            const title = e.target.value.trim();
+            if (title && title !== initialTitle) onSave(title);
+            else onCancel();
+        }}
+        onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') onCancel();
+        }}
+        className="w-full p-1 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600 text-sm"
+        aria-label="Titolo della conversazione"
+    />
+);
+
+/**
+ * Lists the saved conversations, pinned ones first, and lets the user open, rename, pin and delete them.
+ */
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+    conversations,
+    activeId,
+    disabled,
+    onSelect,
+    onNew,
+    onRename,
+    onTogglePin,
+    onDelete,
+    onImport,
+    onSearch,
+}) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const sorted = useMemo(() => sortConversations(conversations), [conversations]);
+
+    return (
+        <aside className="w-64 flex-shrink-0 flex flex-col bg-gray-800/60 border-r border-gray-700">
+            <div className="p-3 border-b border-gray-700 space-y-2">
+                <div className="flex space-x-2">
+                    <button
+                        onClick={onNew}
+                        disabled={disabled}
+                        className="flex-1 px-3 py-2 text-sm rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Nuova conversazione
+                    </button>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={disabled}
+                        className="px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 border border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Importa una conversazione esportata in JSON"
+                    >
+                        Importa
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+                <button
+                    onClick={onSearch}
+                    disabled={disabled}
+                    className="w-full flex items-center justify-center space-x-2 px-3 py-1.5 text-sm rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Cerca nei messaggi di tutte le conversazioni salvate"
+                >
+                    <SearchIcon className="w-4 h-4" />
+                    <span>Cerca nelle conversazioni</span>
+                </button>
+            </div>
+            <nav className="flex-1 overflow-y-auto p-2 space-y-1" aria-label="Conversazioni salvate">
+                {sorted.length === 0 && (
+                    <p className="p-2 text-xs text-gray-500">Le conversazioni vengono salvate dopo la prima domanda.</p>
+                )}
+                {sorted.map(conversation => {
+                    const title = displayConversationTitle(conversation);
+                    const isActive = conversation.id === activeId;
+                    return (
+                        <div
+                            key={conversation.id}
+                            className={`group rounded-md p-2 text-sm ${isActive ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}
+                        >
+                            {editingId === conversation.id ? (
+                                <TitleEditor
+                                    initialTitle={title}
+                                    onSave={newTitle => {
+                                        onRename(conversation.id, newTitle);
+                                        setEditingId(null);
+                                    }}
+                                    onCancel={() => setEditingId(null)}
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => onSelect(conversation.id)}
+                                    onDoubleClick={() => setEditingId(conversation.id)}
+                                    disabled={disabled && !isActive}
+                                    className="w-full text-left truncate disabled:cursor-not-allowed"
+                                    title={title}
+                                    aria-current={isActive ? 'true' : undefined}
+                                >
+                                    {title}
+                                </button>
+                            )}
+                            <div className="mt-1 flex items-center justify-between text-xs text-gray-500">
+                                <span>{new Date(conversation.updatedAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                                <span className="flex items-center space-x-2">
+                                    <button
+                                        onClick={() => onTogglePin(conversation.id)}
+                                        className={`hover:text-white ${conversation.pinned ? 'text-blue-400' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                                        title={conversation.pinned ? 'Rimuovi dai fissati' : 'Fissa in alto'}
+                                        aria-label={conversation.pinned ? 'Rimuovi dai fissati' : 'Fissa in alto'}
+                                    >
+                                        <PinIcon filled={conversation.pinned} className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => setEditingId(conversation.id)}
+                                        className="opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-white"
+                                    >
+                                        Rinomina
+                                    </button>
+                                    <button
+                                        onClick={() => onDelete(conversation.id)}
+                                        disabled={disabled && isActive}
+                                        className="opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-white font-bold text-base leading-none disabled:cursor-not-allowed"
+                                        title="Elimina la conversazione"
+                                        aria-label="Elimina la conversazione"
+                                    >
+                                        &times;
+                                    </button>
+                                </span>
+                            </div>
+                        </div>
+                    );
+                })}
+            </nav>
+        </aside>
+    );
+};
+
+export default ConversationSidebar;
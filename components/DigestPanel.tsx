@@ -0,0 +1,197 @@
+import React from 'react';
+import type { FaqEntry, KnowledgeDigest, SourceLocation } from '../types';
+import type { DigestProgress } from '../services/digestService';
+import { digestToMarkdown } from '../utils/digest';
+import { formatPageRange } from '../utils/retrieval';
+import { downloadText } from '../utils/download';
+import LoadingSpinner from './LoadingSpinner';
+
+interface DigestPanelProps {
+    digest: KnowledgeDigest | null;
+    /** The knowledge base has changed since the digest was built. */
+    isStale: boolean;
+    /** Set while the digest is being built. */
+    progress: DigestProgress | null;
+    canGenerate: boolean;
+    onGenerate: () => void;
+    onCancel: () => void;
+    onChange: (digest: KnowledgeDigest) => void;
+    onOpenSource: (location: SourceLocation) => void;
+    /** Whether the original file of a document is kept, so that the document can be opened in the viewer. */
+    canOpenDocument: (documentId: string) => boolean;
+}
+
+const FIELD_CLASSES = 'w-full p-2 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600 text-xs';
+
+/**
+ * Text field saved when it loses focus, so that the digest is not stored on every keystroke.
+ */
+const DigestField: React.FC<{
+    value: string;
+    onCommit: (value: string) => void;
+    multiline?: boolean;
+    label: string;
+}> = ({ value, onCommit, multiline = false, label }) => {
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        if (e.target.value !== value) onCommit(e.target.value);
+    };
+    // Remounting on external changes resets the field to the current value.
+    return multiline
+        ? <textarea key={value} defaultValue={value} onBlur={handleBlur} rows={4} className={`${FIELD_CLASSES} resize-y`} aria-label={label} />
+        : <input key={value} type="text" defaultValue={value} onBlur={handleBlur} className={FIELD_CLASSES} aria-label={label} />;
+};
+
+const downloadMarkdown = (digest: KnowledgeDigest) => {
+    downloadText(digestToMarkdown(digest), `digest-${new Date(digest.createdAt).toISOString().slice(0, 10)}.md`, 'text/markdown');
+};
+
+/**
+ * Shows the digest of the knowledge base and lets admins correct it and approve its FAQ entries.
+ */
+const DigestPanel: React.FC<DigestPanelProps> = ({ digest, isStale, progress, canGenerate, onGenerate, onCancel, onChange, onOpenSource, canOpenDocument }) => {
+    const updateEntry = (id: string, changes: Partial<FaqEntry>) => {
+        if (!digest) return;
+        onChange({ ...digest, faq: digest.faq.map(entry => entry.id === id ? { ...entry, ...changes } : entry) });
+    };
+
+    const addEntry = () => {
+        if (!digest) return;
+        onChange({ ...digest, faq: [...digest.faq, { id: crypto.randomUUID(), question: '', answer: '', references: [], approved: false }] });
+    };
+
+    const approvedCount = digest?.faq.filter(entry => entry.approved).length ?? 0;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-white">Digest e FAQ</h3>
+                {digest && !progress && (
+                    <button onClick={() => downloadMarkdown(digest)} className="text-xs text-blue-400 hover:underline" title="Scarica il digest come file Markdown">
+                        Esporta Markdown
+                    </button>
+                )}
+            </div>
+
+            {progress ? (
+                <div className="flex items-center space-x-2 text-xs text-blue-300">
+                    <LoadingSpinner />
+                    <span className="flex-1">Analisi dei documenti: {progress.completed}/{progress.total} passaggi...</span>
+                    <button onClick={onCancel} className="text-gray-400 hover:text-white">Annulla</button>
+                </div>
+            ) : (
+                <button
+                    onClick={onGenerate}
+                    disabled={!canGenerate}
+                    className="w-full px-3 py-2 text-sm rounded-md bg-gray-700 hover:bg-gray-600 border border-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Riassume i documenti e propone una bozza di FAQ. Richiede diverse chiamate al modello."
+                >
+                    {digest ? 'Rigenera digest' : 'Genera digest'}
+                </button>
+            )}
+
+            {digest && (
+                <div className="space-y-3 text-xs text-gray-300">
+                    {isStale && (
+                        <p className="text-amber-400">I documenti sono cambiati dopo la generazione: il digest potrebbe non essere aggiornato.</p>
+                    )}
+
+                    {digest.documents.map(doc => (
+                        <details key={doc.documentId} className="space-y-2">
+                            <summary className="cursor-pointer font-medium text-gray-200">{doc.title}</summary>
+                            <DigestField
+                                label={`Riassunto di ${doc.title}`}
+                                value={doc.summary}
+                                multiline
+                                onCommit={summary => onChange({
+                                    ...digest,
+                                    documents: digest.documents.map(d => d.documentId === doc.documentId ? { ...d, summary } : d),
+                                })}
+                            />
+                            {doc.outline.length > 0 && (
+                                <ul className="space-y-0.5 text-gray-400">
+                                    {doc.outline.map((item, i) => (
+                                        <li key={i} style={{ paddingLeft: `${(item.level - 1) * 0.75}rem` }}>{item.title}</li>
+                                    ))}
+                                </ul>
+                            )}
+                        </details>
+                    ))}
+
+                    {digest.entities.length > 0 && (
+                        <details>
+                            <summary className="cursor-pointer font-medium text-gray-200">Entità principali ({digest.entities.length})</summary>
+                            <div className="mt-2">
+                                <DigestField
+                                    label="Entità principali, separate da virgole"
+                                    value={digest.entities.join(', ')}
+                                    multiline
+                                    onCommit={value => onChange({ ...digest, entities: value.split(',').map(entity => entity.trim()).filter(Boolean) })}
+                                />
+                            </div>
+                        </details>
+                    )}
+
+                    <details open>
+                        <summary className="cursor-pointer font-medium text-gray-200">
+                            FAQ ({approvedCount}/{digest.faq.length} approvate)
+                        </summary>
+                        <p className="mt-1 text-gray-500">
+                            Le voci approvate vengono inviate al modello, prima dei frammenti recuperati, quando la domanda dell'utente è simile.
+                        </p>
+                        <ul className="mt-2 space-y-3">
+                            {digest.faq.map(entry => (
+                                <li key={entry.id} className={`p-2 rounded-md border space-y-1 ${entry.approved ? 'border-green-700 bg-green-900/20' : 'border-gray-600'}`}>
+                                    <DigestField label="Domanda" value={entry.question} onCommit={question => updateEntry(entry.id, { question })} />
+                                    <DigestField label="Risposta" value={entry.answer} multiline onCommit={answer => updateEntry(entry.id, { answer })} />
+                                    {entry.references.length > 0 && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {entry.references.map(reference => {
+                                                const label = `${reference.documentTitle}${formatPageRange(reference) ? `, ${formatPageRange(reference)}` : ''}`;
+                                                return canOpenDocument(reference.documentId) ? (
+                                                    <button
+                                                        key={reference.chunkId}
+                                                        onClick={() => onOpenSource({ documentId: reference.documentId, chunkId: reference.chunkId, pageStart: reference.pageStart, pageEnd: reference.pageEnd })}
+                                                        className="px-1.5 py-0.5 rounded bg-gray-700 text-blue-300 hover:bg-gray-600"
+                                                        title="Apri il frammento nel documento"
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                ) : (
+                                                    <span key={reference.chunkId} className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300">
+                                                        {label}
+                                                    </span>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                    <div className="flex items-center justify-between">
+                                        <label className="flex items-center space-x-1 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={entry.approved}
+                                                onChange={(e) => updateEntry(entry.id, { approved: e.target.checked })}
+                                                className="accent-green-500"
+                                            />
+                                            <span>Approvata</span>
+                                        </label>
+                                        <button
+                                            onClick={() => onChange({ ...digest, faq: digest.faq.filter(e => e.id !== entry.id) })}
+                                            className="text-gray-400 hover:text-white font-bold text-lg leading-none px-1"
+                                            title="Elimina la voce"
+                                            aria-label="Elimina la voce"
+                                        >
+                                            &times;
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                        <button onClick={addEntry} className="mt-2 text-blue-400 hover:underline">Aggiungi una voce</button>
+                    </details>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DigestPanel;
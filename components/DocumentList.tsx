@@ -0,0 +1,140 @@
+import React, { useRef } from 'react';
+import type { KnowledgeDocument } from '../types';
+import { isRemoteSource } from '../utils/knowledgeBase';
+import { ACCEPTED_FILE_EXTENSIONS } from '../utils/fileExtractors';
+import LoadingSpinner from './LoadingSpinner';
+import SourceIcon from './icons/SourceIcon';
+import FileIcon from './icons/FileIcon';
+import ExternalLinkIcon from './icons/ExternalLinkIcon';
+
+interface DocumentListProps {
+    documents: KnowledgeDocument[];
+    onToggleDocument: (documentId: string) => void;
+    onDeleteDocument: (documentId: string) => void;
+    onReloadDocument: (documentId: string, file?: File) => Promise<void>;
+    onOpenDocument: (documentId: string) => void;
+    reloadingDocumentId: string | null;
+    disabled?: boolean;
+}
+
+const formatSize = (chars: number): string => {
+    if (chars < 1000) return `${chars} car.`;
+    return `${(chars / 1000).toFixed(1)}k car.`;
+};
+
+const DocumentList: React.FC<DocumentListProps> = ({
+    documents,
+    onToggleDocument,
+    onDeleteDocument,
+    onReloadDocument,
+    onOpenDocument,
+    reloadingDocumentId,
+    disabled = false
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const pendingReloadIdRef = useRef<string | null>(null);
+
+    // Local files can't be re-read from their name, so reloading them asks for the file again.
+    const handleReloadClick = (doc: KnowledgeDocument) => {
+        if (isRemoteSource(doc)) {
+            onReloadDocument(doc.id);
+            return;
+        }
+        pendingReloadIdRef.current = doc.id;
+        fileInputRef.current?.click();
+    };
+
+    const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        const documentId = pendingReloadIdRef.current;
+        e.target.value = '';
+        pendingReloadIdRef.current = null;
+        if (file && documentId) {
+            onReloadDocument(documentId, file);
+        }
+    };
+
+    if (documents.length === 0) {
+        return (
+            <p className="text-xs text-gray-500 italic">Nessun documento caricato.</p>
+        );
+    }
+
+    return (
+        <>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_FILE_EXTENSIONS.join(',')}
+                onChange={handleFileInputChange}
+                className="hidden"
+            />
+            <ul className="space-y-2">
+                {documents.map(doc => {
+                    const isReloading = reloadingDocumentId === doc.id;
+                    return (
+                        <li
+                            key={doc.id}
+                            className={`p-3 bg-gray-700/50 rounded-lg text-xs border border-gray-600 ${doc.enabled ? 'text-gray-400' : 'text-gray-500 opacity-60'}`}
+                        >
+                            <div className="flex items-start justify-between gap-2">
+                                <label className="flex items-start gap-2 min-w-0 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={doc.enabled}
+                                        onChange={() => onToggleDocument(doc.id)}
+                                        disabled={disabled}
+                                        className="mt-0.5 accent-blue-500"
+                                        title={doc.enabled ? "Disattiva documento" : "Attiva documento"}
+                                    />
+                                    <FileIcon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                                    <span className="font-semibold text-gray-300 truncate" title={doc.title}>{doc.title}</span>
+                                </label>
+                                <div className="flex items-center flex-shrink-0 space-x-1">
+                                    {doc.originalFileType && (
+                                        <button
+                                            onClick={() => onOpenDocument(doc.id)}
+                                            className="p-1 rounded hover:bg-gray-600 hover:text-white"
+                                            title="Apri il documento"
+                                            aria-label={`Apri ${doc.title}`}
+                                        >
+                                            <ExternalLinkIcon className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => handleReloadClick(doc)}
+                                        disabled={disabled || isReloading}
+                                        className="p-1 rounded hover:bg-gray-600 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                                        title={isRemoteSource(doc) ? "Ricarica documento" : "Sostituisci con una nuova versione del file"}
+                                        aria-label={`Ricarica ${doc.title}`}
+                                    >
+                                        {isReloading ? <LoadingSpinner /> : <SourceIcon className="w-4 h-4" />}
+                                    </button>
+                                    <button
+                                        onClick={() => onDeleteDocument(doc.id)}
+                                        disabled={disabled || isReloading}
+                                        className="text-gray-400 hover:text-white font-bold text-lg leading-none px-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        title="Rimuovi documento"
+                                        aria-label={`Rimuovi ${doc.title}`}
+                                    >
+                                        &times;
+                                    </button>
+                                </div>
+                            </div>
+                            <p className="mt-1 truncate" title={doc.source}>{doc.source}</p>
+                            {doc.embeddingModel && (
+                                <p className="mt-1 text-blue-300" title={`Embedding: ${doc.embeddingModel}`}>Indicizzato per la ricerca semantica</p>
+                            )}
+                            <div className="mt-1 flex justify-between font-mono">
+                                <span>{new Date(doc.loadedAt).toLocaleString('it-IT')}</span>
+                                <span>{formatSize(doc.size)} · {doc.tokenEstimate.toLocaleString()} tok</span>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </>
+    );
+};
+
+export default DocumentList;
@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { KnowledgeDocument } from '../types';
+import * as storage from '../services/storageService';
+import { loadPdfDocument, findPassageItems } from '../utils/pdfParser';
+import LoadingSpinner from './LoadingSpinner';
+
+export interface DocumentViewerTarget {
+    chunkId?: string;
+    pageStart?: number;
+    pageEnd?: number;
+    passage?: string;
+}
+
+interface DocumentViewerProps {
+    document: KnowledgeDocument;
+    target: DocumentViewerTarget;
+    onClose: () => void;
+}
+
+// Horizontal padding of the page list, subtracted from the panel width when fitting pages.
+const PAGE_GUTTER = 32;
+// Pages are rendered when they come within this distance of the visible area.
+const RENDER_MARGIN = '400px';
+
+interface HighlightRect {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * One PDF page, rendered to a canvas the first time it comes into view, with the passage highlighted.
+ */
+const PdfPage: React.FC<{
+    pdf: any;
+    pageNumber: number;
+    width: number;
+    /** Height of the placeholder shown before rendering, from the first page's aspect ratio. */
+    estimatedHeight: number;
+    passage?: string;
+    pageRef: (element: HTMLDivElement | null) => void;
+}> = ({ pdf, pageNumber, width, estimatedHeight, passage, pageRef }) => {
+    const containerRef = useRef<HTMLDivElement | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [isVisible, setIsVisible] = useState(false);
+    const [height, setHeight] = useState(estimatedHeight);
+    const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                setIsVisible(true);
+                observer.disconnect();
+            }
+        }, { rootMargin: RENDER_MARGIN });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        if (!isVisible || !canvasRef.current) return;
+        let renderTask: any;
+        let isCancelled = false;
+
+        const render = async () => {
+            const page = await pdf.getPage(pageNumber);
+            const baseViewport = page.getViewport({ scale: 1 });
+            const viewport = page.getViewport({ scale: width / baseViewport.width });
+            const canvas = canvasRef.current;
+            if (isCancelled || !canvas) return;
+
+            // Render at device resolution, so text stays sharp on high-density screens.
+            const pixelRatio = window.devicePixelRatio || 1;
+            canvas.width = Math.floor(viewport.width * pixelRatio);
+            canvas.height = Math.floor(viewport.height * pixelRatio);
+            canvas.style.width = `${viewport.width}px`;
+            canvas.style.height = `${viewport.height}px`;
+            setHeight(viewport.height);
+
+            renderTask = page.render({
+                canvasContext: canvas.getContext('2d')!,
+                viewport,
+                transform: pixelRatio !== 1 ? [pixelRatio, 0, 0, pixelRatio, 0, 0] : undefined,
+            });
+            await renderTask.promise;
+
+            if (!passage) {
+                setHighlights([]);
+                return;
+            }
+            const { items } = await page.getTextContent();
+            const rects = findPassageItems(items, passage).map(i => {
+                const item = items[i];
+                const [x, y] = [item.transform[4], item.transform[5]];
+                const itemHeight = item.height || Math.hypot(item.transform[2], item.transform[3]);
+                const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + item.width, y + itemHeight]);
+                return {
+                    left: Math.min(x1, x2),
+                    top: Math.min(y1, y2),
+                    width: Math.abs(x2 - x1),
+                    height: Math.abs(y2 - y1),
+                };
+            });
+            if (!isCancelled) setHighlights(rects);
+        };
+
+        render().catch(e => {
+            if (!isCancelled) console.error(`Failed to render page ${pageNumber}`, e);
+        });
+        return () => {
+            isCancelled = true;
+            renderTask?.cancel();
+        };
+    }, [isVisible, pdf, pageNumber, width, passage]);
+
+    return (
+        <div
+            ref={element => {
+                containerRef.current = element;
+                pageRef(element);
+            }}
+            className="relative mx-auto bg-white shadow-md"
+            style={{ width, height }}
+            data-page={pageNumber}
+        >
+            <canvas ref={canvasRef} className="block" />
+            {highlights.map((rect, i) => (
+                <div
+                    key={i}
+                    className="absolute bg-yellow-300/40 mix-blend-multiply pointer-events-none rounded-sm"
+                    style={rect}
+                />
+            ))}
+            {!isVisible && (
+                <span className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm">Pagina {pageNumber}</span>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Side panel showing the original PDF of a document, scrolled to and highlighting a passage.
+ * Pages are rendered on demand, so opening a long document stays fast.
+ */
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ document, target, onClose }) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const [pdf, setPdf] = useState<any>(null);
+    const [pageAspectRatio, setPageAspectRatio] = useState(Math.SQRT2);
+    const [width, setWidth] = useState(0);
+    const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+
+    useEffect(() => {
+        let isCancelled = false;
+        let loaded: any = null;
+        setStatus('loading');
+        setPdf(null);
+
+        const open = async () => {
+            const file = await storage.loadDocumentFile(document.id);
+            if (!file) {
+                if (!isCancelled) setStatus('missing');
+                return;
+            }
+            const pdfDocument = await loadPdfDocument(file);
+            // A document loaded after the viewer closed or moved on is released here, as the cleanup has already run.
+            if (isCancelled) {
+                pdfDocument.destroy();
+                return;
+            }
+            loaded = pdfDocument;
+            const firstPage = await loaded.getPage(1);
+            const viewport = firstPage.getViewport({ scale: 1 });
+            if (isCancelled) return;
+            setPageAspectRatio(viewport.height / viewport.width);
+            setPdf(loaded);
+            setStatus('ready');
+        };
+
+        open().catch(e => {
+            console.error("Failed to open document in viewer", e);
+            if (!isCancelled) setStatus('error');
+        });
+        return () => {
+            isCancelled = true;
+            loaded?.destroy();
+        };
+    }, [document.id, document.loadedAt]);
+
+    useEffect(() => {
+        const element = scrollRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setWidth(Math.max(0, element.clientWidth - PAGE_GUTTER)));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    // Jump to the target page whenever the document is ready or another passage is opened.
+    useEffect(() => {
+        if (!pdf || !width) return;
+        const page = Math.min(Math.max(target.pageStart ?? 1, 1), pdf.numPages);
+        pageRefs.current[page - 1]?.scrollIntoView({ block: 'start' });
+    }, [pdf, width, document.id, target.chunkId, target.pageStart, target.pageEnd]);
+
+    const isHighlightedPage = (pageNumber: number) => target.pageStart !== undefined
+        && pageNumber >= target.pageStart
+        && pageNumber <= (target.pageEnd ?? target.pageStart);
+
+    return (
+        // The browser's find, rather than the chat's, answers Ctrl+F here.
+        <aside data-browser-find className="w-[36rem] max-w-[50vw] flex-shrink-0 flex flex-col bg-gray-800 border-l border-gray-700">
+            <div className="flex items-center justify-between gap-2 p-3 border-b border-gray-700">
+                <div className="min-w-0">
+                    <h2 className="text-sm font-semibold truncate" title={document.title}>{document.title}</h2>
+                    {target.pageStart !== undefined && (
+                        <p className="text-xs text-gray-400">
+                            {target.pageEnd !== undefined && target.pageEnd !== target.pageStart
+                                ? `Pagine ${target.pageStart}-${target.pageEnd}`
+                                : `Pagina ${target.pageStart}`}
+                            {pdf ? ` di ${pdf.numPages}` : ''}
+                        </p>
+                    )}
+                </div>
+                <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-white font-bold text-xl leading-none"
+                    title="Chiudi il visualizzatore"
+                    aria-label="Chiudi il visualizzatore"
+                >
+                    &times;
+                </button>
+            </div>
+
+            <div ref={scrollRef} className="flex-1 overflow-y-auto bg-gray-900 p-4 space-y-4">
+                {status === 'loading' && (
+                    <div className="flex items-center justify-center space-x-2 text-sm text-gray-400 pt-8">
+                        <LoadingSpinner />
+                        <span>Apertura del documento...</span>
+                    </div>
+                )}
+                {status === 'missing' && (
+                    <p className="text-sm text-gray-400 text-center pt-8">
+                        Il file originale di questo documento non è disponibile. Ricaricalo per poterlo visualizzare.
+                    </p>
+                )}
+                {status === 'error' && (
+                    <p className="text-sm text-red-400 text-center pt-8">Impossibile aprire il documento.</p>
+                )}
+                {status === 'ready' && pdf && width > 0 && Array.from({ length: pdf.numPages }, (_, i) => (
+                    <PdfPage
+                        key={i}
+                        pdf={pdf}
+                        pageNumber={i + 1}
+                        width={width}
+                        estimatedHeight={width * pageAspectRatio}
+                        passage={isHighlightedPage(i + 1) ? target.passage : undefined}
+                        pageRef={element => { pageRefs.current[i] = element; }}
+                    />
+                ))}
+            </div>
+        </aside>
+    );
+};
+
+export default DocumentViewer;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ExportFormat } from '../utils/conversationExport';
+import ExportIcon from './icons/ExportIcon';
+
+interface ExportMenuProps {
+    onExport: (format: ExportFormat) => void;
+    disabled?: boolean;
+}
+
+const OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+    { format: 'markdown', label: 'Markdown', description: 'Trascrizione con le fonti, da modificare o incollare' },
+    { format: 'html', label: 'HTML', description: 'Pagina impaginata da inviare ai clienti' },
+    { format: 'pdf', label: 'PDF', description: 'Apre la stampa della pagina impaginata' },
+    { format: 'json', label: 'JSON', description: "Archivio completo, da importare nell'app" },
+];
+
+/**
+ * Header button opening the list of export formats of the conversation.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled = false }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handlePointerDown = (event: PointerEvent) => {
+            if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') setIsOpen(false);
+        };
+        window.addEventListener('pointerdown', handlePointerDown);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('pointerdown', handlePointerDown);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [isOpen]);
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                disabled={disabled}
+                className="p-2 rounded-md hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Esporta la conversazione"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                title="Esporta la conversazione"
+            >
+                <ExportIcon />
+            </button>
+            {isOpen && (
+                <div role="menu" className="absolute right-0 mt-2 w-64 z-30 bg-gray-800 border border-gray-700 rounded-md shadow-xl py-1">
+                    {OPTIONS.map(option => (
+                        <button
+                            key={option.format}
+                            role="menuitem"
+                            onClick={() => {
+                                setIsOpen(false);
+                                onExport(option.format);
+                            }}
+                            className="w-full text-left px-3 py-2 hover:bg-gray-700"
+                        >
+                            <span className="block text-sm text-white">{option.label}</span>
+                            <span className="block text-xs text-gray-400">{option.description}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,99 @@
+import React, { useEffect, useRef } from 'react';
+import SearchIcon from './icons/SearchIcon';
+
+interface FindBarProps {
+    query: string;
+    onQueryChange: (query: string) => void;
+    matchCount: number;
+    /** Position of the selected match, from 0. */
+    activeMatch: number;
+    onNext: () => void;
+    onPrevious: () => void;
+}
+
+/**
+ * Search box of the header: highlights the query in the chat, counts the matches and steps through them.
+ * Ctrl+F (⌘F) focuses it, Enter and Shift+Enter move to the next and previous match, Escape clears it.
+ * The browser's own find is left to a second Ctrl+F, to open dialogs and to areas marked with `data-browser-find`.
+ */
+const FindBar: React.FC<FindBarProps> = ({ query, onQueryChange, matchCount, activeMatch, onNext, onPrevious }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const hasQuery = query.trim() !== '';
+
+    useEffect(() => {
+        // Where the user last clicked: the document viewer takes no focus, so focus alone does not tell it is in use.
+        let lastPointerTarget: Element | null = null;
+        const handlePointerDown = (event: PointerEvent) => {
+            lastPointerTarget = event.target instanceof Element ? event.target : null;
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'f') return;
+            const active = document.activeElement;
+            const leaveToBrowser = active === inputRef.current
+                || document.querySelector('[role="dialog"]') !== null
+                || [active, lastPointerTarget].some(element => element?.closest('[data-browser-find]'));
+            if (leaveToBrowser) return;
+            event.preventDefault();
+            inputRef.current?.focus();
+            inputRef.current?.select();
+        };
+        window.addEventListener('pointerdown', handlePointerDown);
+        window.addEventListener('keydown', handleKeyDown);
+        return () => {
+            window.removeEventListener('pointerdown', handlePointerDown);
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, []);
+
+    return (
+        <div className="relative flex-grow max-w-xs">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+            <input
+                ref={inputRef}
+                type="text"
+                placeholder="Cerca nella cronologia..."
+                value={query}
+                onChange={(e) => onQueryChange(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && matchCount > 0) {
+                        e.preventDefault();
+                        if (e.shiftKey) onPrevious();
+                        else onNext();
+                    } else if (e.key === 'Escape') {
+                        onQueryChange('');
+                    }
+                }}
+                className={`w-full bg-gray-800/50 rounded-md pl-10 ${hasQuery ? 'pr-32' : 'pr-4'} py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 border border-transparent focus:border-blue-500`}
+                aria-label="Cerca nella conversazione"
+                title="Ctrl+F per cercare (di nuovo Ctrl+F per la ricerca del browser), Invio e Maiusc+Invio per passare al risultato successivo o precedente"
+            />
+            {hasQuery && (
+                <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center space-x-1 text-xs text-gray-400">
+                    <span className="font-mono whitespace-nowrap" aria-live="polite">
+                        {matchCount > 0 ? `${activeMatch + 1} di ${matchCount}` : 'Nessun risultato'}
+                    </span>
+                    <button
+                        onClick={onPrevious}
+                        disabled={matchCount === 0}
+                        className="px-1 hover:text-white disabled:opacity-40"
+                        aria-label="Risultato precedente"
+                        title="Risultato precedente (Maiusc+Invio)"
+                    >
+                        ↑
+                    </button>
+                    <button
+                        onClick={onNext}
+                        disabled={matchCount === 0}
+                        className="px-1 hover:text-white disabled:opacity-40"
+                        aria-label="Risultato successivo"
+                        title="Risultato successivo (Invio)"
+                    >
+                        ↓
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FindBar;
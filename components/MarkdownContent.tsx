@@ -0,0 +1,195 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, inlineText } from '../utils/markdown';
+import { searchPattern } from '../utils/conversationSearch';
+import type { BlockNode, InlineNode } from '../utils/markdown';
+
+interface MarkdownContentProps {
+    text: string;
+    /** Occurrences of this text are highlighted, as in plain messages. */
+    searchQuery: string;
+    /** Renders unfinished Markdown at the end of the text as if it were closed, while the answer streams. */
+    isStreaming?: boolean;
+    /** Renders a citation marker; without it, citations are shown as plain "[n]" text. */
+    renderCitation?: (numbers: number[], key: React.Key) => React.ReactNode;
+    /** Sentences, as returned by `extractClaims`, marked as not supported by the sources. */
+    unsupportedClaims?: string[];
+}
+
+/** Position in the displayed text of a paragraph, heading or table cell while its inline nodes are rendered. */
+interface InlineRun {
+    offset: number;
+    /** Character ranges of the unsupported claims in the run's text. */
+    ranges: [number, number][];
+}
+
+/**
+ * Splits text on line breaks and on occurrences of the search query, which are highlighted.
+ * Highlights carry `data-search-match`, so that the chat can step through them; the one selected gets `data-active`.
+ */
+export const highlightText = (text: string, searchQuery: string): React.ReactNode => {
+    const pattern = searchPattern(searchQuery);
+    const withBreaks = (part: string) => part.split('\n').map((line, i, arr) => (
+        <React.Fragment key={i}>
+            {line}
+            {i < arr.length - 1 && <br />}
+        </React.Fragment>
+    ));
+
+    if (!pattern) return withBreaks(text);
+
+    // Splitting on a capturing group puts the matches at the odd positions.
+    return text.split(new RegExp(`(${pattern.source})`, 'gi')).map((part, index) => {
+        if (index % 2 === 1) {
+            return <mark key={index} data-search-match className="bg-yellow-400 text-black rounded px-1 py-0.5 data-[active=true]:bg-orange-400 data-[active=true]:ring-2 data-[active=true]:ring-white">{withBreaks(part)}</mark>;
+        }
+        return <React.Fragment key={index}>{withBreaks(part)}</React.Fragment>;
+    });
+};
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+/**
+ * Renders a model answer written in Markdown. The text is parsed into a tree and rendered as React elements,
+ * so raw HTML in the answer is shown as text and never interpreted.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, searchQuery, isStreaming = false, renderCitation, unsupportedClaims = [] }) => {
+    const blocks = useMemo(() => parseMarkdown(text, { partial: isStreaming }), [text, isStreaming]);
+
+    const startRun = (nodes: InlineNode[]): InlineRun => {
+        const runText = inlineText(nodes);
+        const ranges = unsupportedClaims
+            .map(claim => [runText.indexOf(claim), claim.length])
+            .filter(([start]) => start >= 0)
+            .map(([start, length]): [number, number] => [start, start + length])
+            .sort((a, b) => a[0] - b[0]);
+        return { offset: 0, ranges };
+    };
+
+    // Renders a piece of text, marking the parts that fall inside an unsupported claim.
+    const renderText = (value: string, run?: InlineRun): React.ReactNode => {
+        const start = run?.offset ?? 0;
+        if (run) run.offset += value.length;
+        const ranges = run?.ranges.filter(([from, to]) => from < start + value.length && to > start) ?? [];
+        if (ranges.length === 0) return highlightText(value, searchQuery);
+
+        const parts: React.ReactNode[] = [];
+        let pos = 0;
+        for (const [from, to] of ranges) {
+            const markStart = Math.max(from - start, pos);
+            const markEnd = Math.min(to - start, value.length);
+            if (markStart > pos) {
+                parts.push(<React.Fragment key={parts.length}>{highlightText(value.slice(pos, markStart), searchQuery)}</React.Fragment>);
+            }
+            if (markEnd > markStart) {
+                parts.push(
+                    <span
+                        key={parts.length}
+                        className="underline decoration-wavy decoration-red-400 underline-offset-4"
+                        title="Affermazione non supportata dai frammenti inviati"
+                    >
+                        {highlightText(value.slice(markStart, markEnd), searchQuery)}
+                    </span>
+                );
+            }
+            pos = Math.max(pos, markEnd);
+        }
+        if (pos < value.length) {
+            parts.push(<React.Fragment key={parts.length}>{highlightText(value.slice(pos), searchQuery)}</React.Fragment>);
+        }
+        return parts;
+    };
+
+    const renderInline = (nodes: InlineNode[], run?: InlineRun): React.ReactNode[] => nodes.map((node, i) => {
+        switch (node.type) {
+            case 'text':
+                return <React.Fragment key={i}>{renderText(node.text, run)}</React.Fragment>;
+            case 'break':
+                if (run) run.offset += 1;
+                return <br key={i} />;
+            case 'strong':
+                return <strong key={i} className="font-semibold text-white">{renderInline(node.children, run)}</strong>;
+            case 'em':
+                return <em key={i}>{renderInline(node.children, run)}</em>;
+            case 'del':
+                return <del key={i}>{renderInline(node.children, run)}</del>;
+            case 'code':
+                return <code key={i} className="px-1 py-0.5 rounded bg-gray-800 font-mono text-[0.85em]">{renderText(node.text, run)}</code>;
+            case 'link':
+                return (
+                    <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-300 underline hover:text-blue-200">
+                        {renderInline(node.children, run)}
+                    </a>
+                );
+            case 'citation':
+                return renderCitation
+                    ? renderCitation(node.numbers, i)
+                    : <React.Fragment key={i}>[{node.numbers.join(', ')}]</React.Fragment>;
+        }
+    });
+
+    const renderBlocks = (nodes: BlockNode[], isTight = false): React.ReactNode[] => nodes.map((node, i) => {
+        switch (node.type) {
+            case 'paragraph':
+                // List items hold their text in a paragraph, without the spacing of a standalone one.
+                return isTight
+                    ? <React.Fragment key={i}>{renderInline(node.children, startRun(node.children))}</React.Fragment>
+                    : <p key={i}>{renderInline(node.children, startRun(node.children))}</p>;
+            case 'heading': {
+                const Tag = `h${Math.min(node.level + 2, 6)}` as 'h3';
+                return <Tag key={i} className={HEADING_CLASSES[node.level - 1]}>{renderInline(node.children, startRun(node.children))}</Tag>;
+            }
+            case 'list': {
+                const items = node.items.map((item, j) => (
+                    <li key={j}>{renderBlocks(item, item.filter(block => block.type === 'paragraph').length <= 1)}</li>
+                ));
+                return node.ordered
+                    ? <ol key={i} start={node.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+                    : <ul key={i} className="list-disc pl-5 space-y-1">{items}</ul>;
+            }
+            case 'code':
+                return (
+                    <div key={i} className="rounded-md bg-gray-900 border border-gray-600 overflow-hidden">
+                        {node.language && <div className="px-3 py-1 text-xs text-gray-400 border-b border-gray-700">{node.language}</div>}
+                        <pre className="p-3 overflow-x-auto text-xs leading-snug"><code className="font-mono">{highlightText(node.text, searchQuery)}</code></pre>
+                    </div>
+                );
+            case 'table':
+                return (
+                    <div key={i} className="overflow-x-auto">
+                        <table className="min-w-full text-xs border-collapse">
+                            <thead>
+                                <tr>
+                                    {node.header.map((cell, c) => (
+                                        <th key={c} className={`px-2 py-1 border border-gray-600 bg-gray-800 font-semibold ${ALIGN_CLASSES[node.align[c] ?? 'left']}`}>
+                                            {renderInline(cell, startRun(cell))}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {node.rows.map((row, r) => (
+                                    <tr key={r}>
+                                        {row.map((cell, c) => (
+                                            <td key={c} className={`px-2 py-1 border border-gray-600 ${ALIGN_CLASSES[node.align[c] ?? 'left']}`}>
+                                                {renderInline(cell, startRun(cell))}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            case 'blockquote':
+                return <blockquote key={i} className="pl-3 border-l-2 border-gray-500 text-gray-300 space-y-2">{renderBlocks(node.children)}</blockquote>;
+            case 'rule':
+                return <hr key={i} className="border-gray-600" />;
+        }
+    });
+
+    return <div className="text-sm leading-relaxed space-y-2 break-words">{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownContent;
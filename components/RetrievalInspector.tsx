@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import type { RetrievalTrace, SourceLocation } from '../types';
+import { formatPageRange } from '../utils/retrieval';
+import CopyIcon from './icons/CopyIcon';
+import CheckIcon from './icons/CheckIcon';
+
+interface RetrievalInspectorProps {
+    trace: RetrievalTrace;
+    onOpenSource?: (location: SourceLocation) => void;
+    /** Whether the original file of a document is kept, so that the document can be opened in the viewer. */
+    canOpenDocument?: (documentId: string) => boolean;
+}
+
+const MODE_LABELS: Record<RetrievalTrace['mode'], string> = {
+    hybrid: 'ibrida (BM25 + embedding)',
+    lexical: 'solo parole chiave (BM25)',
+};
+
+const formatScore = (score: number | undefined): string => score === undefined ? '–' : score.toFixed(3);
+
+const formatRank = (rank: number | undefined, score: number | undefined): string => {
+    return rank === undefined ? '–' : `#${rank} (${formatScore(score)})`;
+};
+
+/**
+ * Expandable view of how the context of an answer was retrieved: query, ranked candidates and prompt size.
+ */
+const RetrievalInspector: React.FC<RetrievalInspectorProps> = ({ trace, onOpenSource, canOpenDocument }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [isCopied, setIsCopied] = useState(false);
+
+    const sentCount = trace.sentChunkIds.length;
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(JSON.stringify(trace, null, 2));
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2000);
+        } catch (e) {
+            console.error("Failed to copy retrieval trace", e);
+        }
+    };
+
+    return (
+        <div className="mt-1 text-xs text-gray-400 max-w-lg">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="hover:text-gray-200"
+                aria-expanded={isOpen}
+            >
+                {isOpen ? '▾' : '▸'} Recupero: {sentCount} {sentCount === 1 ? 'frammento inviato' : 'frammenti inviati'}, ~{trace.promptTokens.total.toLocaleString()} token di prompt
+            </button>
+
+            {isOpen && (
+                <div className="mt-2 p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-3">
+                    <div className="flex justify-between items-start gap-2">
+                        <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1">
+                            <dt>Domanda</dt>
+                            <dd className="text-gray-200">{trace.question}</dd>
+                            <dt>Query</dt>
+                            <dd className="text-gray-200">{trace.query}</dd>
+                            <dt>Modalità</dt>
+                            <dd>{MODE_LABELS[trace.mode]}</dd>
+                            <dt>Selezione</dt>
+                            <dd>top {trace.topK}, soglia {Math.round(trace.scoreThreshold * 100)}%</dd>
+                        </dl>
+                        <button
+                            onClick={handleCopy}
+                            className="flex items-center space-x-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 flex-shrink-0"
+                            title="Copia la traccia come JSON"
+                        >
+                            {isCopied ? <CheckIcon /> : <CopyIcon />}
+                            <span>JSON</span>
+                        </button>
+                    </div>
+
+                    <div>
+                        <h4 className="font-semibold text-gray-300 mb-1">Candidati ({trace.candidates.length})</h4>
+                        {trace.candidates.length === 0 ? (
+                            <p>Nessun frammento corrisponde alla query.</p>
+                        ) : (
+                            <ol className="space-y-2">
+                                {trace.candidates.map(candidate => (
+                                    <li
+                                        key={candidate.chunkId}
+                                        className={`p-2 rounded border ${candidate.sent ? 'border-blue-500/60 bg-blue-900/20' : 'border-gray-700 opacity-70'}`}
+                                    >
+                                        <div className="flex justify-between gap-2">
+                                            <span className="font-semibold text-gray-200 truncate" title={candidate.documentTitle}>
+                                                #{candidate.rank} {candidate.documentTitle}{formatPageRange(candidate) ? `, ${formatPageRange(candidate)}` : ''}
+                                            </span>
+                                            <span className="font-mono flex-shrink-0">{formatScore(candidate.score)}</span>
+                                        </div>
+                                        {candidate.headingPath.length > 0 && (
+                                            <div className="truncate">{candidate.headingPath.join(' › ')}</div>
+                                        )}
+                                        <div className="font-mono">
+                                            BM25 {formatRank(candidate.lexicalRank, candidate.lexicalScore)} · embedding {formatRank(candidate.semanticRank, candidate.semanticScore)} · {candidate.tokenCount} token {candidate.sent ? '· inviato' : ''}
+                                        </div>
+                                        <p className="mt-1 text-gray-500 whitespace-pre-wrap">{candidate.preview}</p>
+                                        {onOpenSource && canOpenDocument?.(candidate.documentId) !== false && (
+                                            <button
+                                                onClick={() => onOpenSource({
+                                                    documentId: candidate.documentId,
+                                                    chunkId: candidate.chunkId,
+                                                    pageStart: candidate.pageStart,
+                                                    pageEnd: candidate.pageEnd,
+                                                    passage: candidate.preview,
+                                                })}
+                                                className="mt-1 text-blue-400 hover:underline"
+                                            >
+                                                Apri nel documento
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+
+                    <div>
+                        <h4 className="font-semibold text-gray-300 mb-1">Dimensione del prompt (stima)</h4>
+                        <dl className="grid grid-cols-[1fr,auto] gap-x-3 font-mono">
+                            <dt>Istruzioni di sistema</dt><dd>{trace.promptTokens.systemInstruction.toLocaleString()}</dd>
+                            <dt>Contesto</dt><dd>{trace.promptTokens.context.toLocaleString()}</dd>
+                            <dt>Riepilogo conversazione</dt><dd>{trace.promptTokens.summary.toLocaleString()}</dd>
+                            <dt>Cronologia ({trace.historyMessageCount} messaggi)</dt><dd>{trace.promptTokens.history.toLocaleString()}</dd>
+                            <dt>Domanda</dt><dd>{trace.promptTokens.question.toLocaleString()}</dd>
+                            <dt className="text-gray-200">Totale</dt><dd className="text-gray-200">{trace.promptTokens.total.toLocaleString()}</dd>
+                            {trace.promptTokenCount !== undefined && (
+                                <>
+                                    <dt>Conteggio effettivo (API)</dt><dd>{trace.promptTokenCount.toLocaleString()}</dd>
+                                </>
+                            )}
+                        </dl>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RetrievalInspector;
@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+
+/** A failed request waiting to be retried automatically. */
+export interface RetryStatus {
+    /** The attempt about to start, from 2 on. */
+    attempt: number;
+    maxAttempts: number;
+    /** Epoch milliseconds at which the attempt starts. */
+    retryAt: number;
+    /** Short description of the failure. */
+    reason: string;
+}
+
+/**
+ * Shows the seconds left before a failed request is sent again, updated every second.
+ */
+const RetryCountdown: React.FC<{ status: RetryStatus }> = ({ status }) => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [status]);
+
+    const secondsLeft = Math.ceil((status.retryAt - now) / 1000);
+
+    return (
+        <p className="text-amber-400 text-center text-sm mb-2" role="status">
+            {status.reason}.{' '}
+            {secondsLeft > 0
+                ? `Nuovo tentativo tra ${secondsLeft} s (${status.attempt}/${status.maxAttempts})...`
+                : `Nuovo tentativo in corso (${status.attempt}/${status.maxAttempts})...`}
+        </p>
+    );
+};
+
+export default RetryCountdown;
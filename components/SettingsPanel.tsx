@@ -1,115 +1,310 @@
 
-import React from 'react';
-import type { Settings } from '../types';
+import React, { useRef, useState } from 'react';
+import type { Settings, KnowledgeDocument, KnowledgeDigest, FileUploadReport, ProviderId, AnswerStatus, SourceLocation, MessageUsage, BudgetScope } from '../types';
+import type { StorageUsage } from '../services/storageService';
+import type { DigestProgress } from '../services/digestService';
+import { PROVIDERS } from '../services/llmProvider';
+import { ACCEPTED_FILE_EXTENSIONS } from '../utils/fileExtractors';
+import { formatEur, usageCost } from '../utils/usage';
+import type { UsageTotals } from '../utils/usage';
+import type { BudgetStatus, SpentAmount } from '../utils/budget';
 import LoadingSpinner from './LoadingSpinner';
+import DocumentList from './DocumentList';
+import UploadReportList from './UploadReportList';
+import DigestPanel from './DigestPanel';
+import BudgetPanel from './BudgetPanel';
 import SourceIcon from './icons/SourceIcon';
+import UploadIcon from './icons/UploadIcon';
 
 interface SettingsPanelProps {
     settings: Settings;
     onSettingsChange: (newSettings: Partial<Settings>) => void;
     onLoadRemotePDF: () => Promise<void>;
+    onUploadFiles: (files: File[]) => Promise<void>;
+    uploadReports: FileUploadReport[];
+    onDismissUploadReports: () => void;
     onClearKnowledgeBase: () => void;
+    documents: KnowledgeDocument[];
+    onToggleDocument: (documentId: string) => void;
+    onDeleteDocument: (documentId: string) => void;
+    onReloadDocument: (documentId: string, file?: File) => Promise<void>;
+    onOpenDocument: (documentId: string) => void;
+    reloadingDocumentId: string | null;
+    storageUsage: StorageUsage | null;
+    embeddingDocumentCount: number;
     isParsing: boolean;
     knowledgeBaseTokens: number;
-    sessionTokensUsed: number;
-    totalTokenLimit: number;
-    userMessagesCount: number;
+    conversationUsage: UsageTotals;
+    lastTurnUsage?: MessageUsage;
+    budgetSpending: Record<BudgetScope, SpentAmount>;
+    budgetStatus: BudgetStatus;
+    answerCounts: Record<AnswerStatus, number>;
+    digest: KnowledgeDigest | null;
+    isDigestStale: boolean;
+    digestProgress: DigestProgress | null;
+    onGenerateDigest: () => void;
+    onCancelDigest: () => void;
+    onDigestChange: (digest: KnowledgeDigest) => void;
+    onOpenSource: (location: SourceLocation) => void;
+    canOpenDocument: (documentId: string) => boolean;
 }
 
+const UsageRow: React.FC<{ label: string; value: string; strong?: boolean }> = ({ label, value, strong = false }) => (
+    <div className={`flex justify-between ${strong ? 'font-medium text-gray-300' : ''}`}>
+        <span>{label}</span>
+        <span className="font-mono">{value}</span>
+    </div>
+);
+
+const formatTokens = (tokens: number) => `${tokens.toLocaleString()} tokens`;
+
 const TokenEstimator: React.FC<{
     knowledgeBaseTokens: number;
-    sessionTokensUsed: number;
-    totalTokenLimit: number;
-    userMessagesCount: number;
-}> = ({ knowledgeBaseTokens, sessionTokensUsed, totalTokenLimit, userMessagesCount }) => {
-    
-    // Con il RAG, il costo della KB non è più l'intero documento, ma solo i chunk pertinenti.
-    // Questa stima ora è meno predittiva perché non sappiamo a priori quali chunk verranno usati.
-    // Mostriamo comunque il costo totale della KB per dare un'idea della sua dimensione.
-    const avgContextTokens = Math.min(knowledgeBaseTokens, 8000); // Stima approssimativa di 4-5 chunk
-    const avgQandATokens = 1500; // Stima per domanda e risposta
-    
-    let estimatedCostPerTurn: number;
-
-    if (userMessagesCount > 0 && sessionTokensUsed > 0) {
-        // La stima dinamica è ancora la più accurata per il Q&A.
-        estimatedCostPerTurn = Math.round(sessionTokensUsed / userMessagesCount);
-    } else {
-        // Stima statica iniziale
-        estimatedCostPerTurn = avgContextTokens + avgQandATokens;
-    }
-    
-    // --- CALCOLO VALORI DERIVATI ---
-    const remainingTokens = Math.max(0, totalTokenLimit - sessionTokensUsed);
-    const currentUsagePercentage = Math.min(100, (sessionTokensUsed / totalTokenLimit) * 100);
-    const isOverLimit = sessionTokensUsed >= totalTokenLimit;
-    
-    const estimatedRemainingTurns = (!isOverLimit && estimatedCostPerTurn > 0)
-        ? Math.floor(remainingTokens / estimatedCostPerTurn)
-        : 0;
+    conversationUsage: UsageTotals;
+    lastTurnUsage?: MessageUsage;
+    contextTokenBudget: number;
+    historyTokenBudget: number;
+}> = ({ knowledgeBaseTokens, conversationUsage, lastTurnUsage, contextTokenBudget, historyTokenBudget }) => {
+    const usedTokens = conversationUsage.totalTokens;
+
+    // Con il RAG si inviano al massimo i frammenti richiesti, mai più dell'intera KB.
+    const maxContextTokens = Math.min(knowledgeBaseTokens, contextTokenBudget);
+    const avgQandATokens = 1500; // Stima per istruzioni, domanda e risposta
+
+    // La media dei turni già conteggiati è la stima più accurata; prima del primo turno si usa il massimo teorico.
+    const estimatedCostPerTurn = conversationUsage.turns > 0
+        ? Math.round(usedTokens / conversationUsage.turns)
+        : maxContextTokens + avgQandATokens + historyTokenBudget;
 
     return (
         <div className="p-3 bg-gray-700/50 rounded-lg space-y-4 border border-gray-600">
-            <h3 className="text-sm font-semibold text-white">Stima Consumo Token</h3>
+            <h3 className="text-sm font-semibold text-white">Consumo Token e Costi</h3>
             
-            {/* Sezione 1: Utilizzo Attuale */}
-            <div>
-                <div className="flex justify-between text-xs text-gray-400 mb-1">
-                    <span>Utilizzo Sessione</span>
-                    <span className={`font-mono ${isOverLimit ? 'text-red-400 font-semibold' : ''}`}>
-                        {sessionTokensUsed.toLocaleString()} / {totalTokenLimit.toLocaleString()}
-                    </span>
+            {/* Sezione 1: Ultimo Turno, con i conteggi riportati dall'API */}
+            {lastTurnUsage && (
+                <div className="text-xs text-gray-400 space-y-1 pt-3 border-t border-gray-600/50">
+                    <h4 className="text-gray-300 font-medium mb-1">Ultimo Turno{lastTurnUsage.estimated ? ' (stima)' : ''}</h4>
+                    <UsageRow label="Prompt" value={formatTokens(lastTurnUsage.promptTokens)} />
+                    <UsageRow label="di cui contesto" value={formatTokens(lastTurnUsage.contextTokens)} />
+                    <UsageRow label="Risposta" value={formatTokens(lastTurnUsage.outputTokens)} />
+                    {lastTurnUsage.thinkingTokens > 0 && <UsageRow label="Ragionamento" value={formatTokens(lastTurnUsage.thinkingTokens)} />}
+                    <UsageRow label="Richieste accessorie" value={formatTokens(lastTurnUsage.auxiliaryPromptTokens + lastTurnUsage.auxiliaryOutputTokens)} />
+                    <UsageRow label="Costo" value={formatEur(usageCost(lastTurnUsage))} strong />
                 </div>
-                <div className="w-full bg-gray-600 rounded-full h-2.5">
-                    <div
-                        className={`h-2.5 rounded-full transition-all duration-500 ${isOverLimit ? 'bg-red-500' : 'bg-blue-500'}`}
-                        style={{ width: `${currentUsagePercentage}%` }}
-                    ></div>
+            )}
+
+            {/* Sezione 2: Totali della Conversazione, comprese le versioni sostituite */}
+            {conversationUsage.turns > 0 && (
+                <div className="text-xs text-gray-400 space-y-1 pt-3 border-t border-gray-600/50">
+                    <h4 className="text-gray-300 font-medium mb-1">
+                        Conversazione: {conversationUsage.turns} {conversationUsage.turns === 1 ? 'turno' : 'turni'}{conversationUsage.estimated ? ' (in parte stimati)' : ''}
+                    </h4>
+                    <UsageRow label="Prompt" value={formatTokens(conversationUsage.promptTokens)} />
+                    <UsageRow label="di cui contesto" value={formatTokens(conversationUsage.contextTokens)} />
+                    <UsageRow label="Risposte" value={formatTokens(conversationUsage.outputTokens)} />
+                    {conversationUsage.thinkingTokens > 0 && <UsageRow label="Ragionamento" value={formatTokens(conversationUsage.thinkingTokens)} />}
+                    <UsageRow label="Richieste accessorie" value={formatTokens(conversationUsage.auxiliaryTokens)} />
+                    <UsageRow label="Costo totale" value={formatEur(conversationUsage.cost)} strong />
                 </div>
-            </div>
+            )}
 
-            {/* Sezione 2: Suddivisione Costi per Prossimo Turno */}
+            {/* Sezione 3: Stima per il Prossimo Turno */}
             <div className="text-xs text-gray-400 space-y-2 pt-3 border-t border-gray-600/50">
-                <div className="flex justify-between">
-                    <span>Dimensione Totale KB</span>
-                    <span className="font-mono">{knowledgeBaseTokens.toLocaleString()} tokens</span>
-                </div>
-                 <div className="flex justify-between">
-                    <span>Contesto Inviato (stima)</span>
-                    <span className="font-mono">~{avgContextTokens.toLocaleString()} tokens</span>
+                <UsageRow label="Dimensione Totale KB" value={formatTokens(knowledgeBaseTokens)} />
+                <UsageRow label="Contesto Inviato (max)" value={`~${formatTokens(maxContextTokens)}`} />
+                <UsageRow label="Cronologia Inviata (max)" value={historyTokenBudget > 0 ? formatTokens(historyTokenBudget) : 'disattivata'} />
+                <UsageRow label="Costo Stimato / Turno" value={`~${formatTokens(Math.round(estimatedCostPerTurn))}`} strong />
+            </div>
+        </div>
+    );
+};
+
+const AnswerOutcomes: React.FC<{ counts: Record<AnswerStatus, number> }> = ({ counts }) => (
+    <div className="p-3 bg-gray-700/50 rounded-lg border border-gray-600 text-xs text-gray-400 space-y-1">
+        <h3 className="text-sm font-semibold text-white mb-2">Esito delle Risposte</h3>
+        <div className="flex justify-between">
+            <span>Risposte dai documenti</span>
+            <span className="font-mono">{counts.answered}</span>
+        </div>
+        <div className="flex justify-between">
+            <span>Informazione non trovata</span>
+            <span className="font-mono text-amber-400">{counts.not_found}</span>
+        </div>
+        <div className="flex justify-between">
+            <span>Domande fuori tema</span>
+            <span className="font-mono">{counts.off_topic}</span>
+        </div>
+    </div>
+);
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+    return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+};
+
+const StorageUsageIndicator: React.FC<{ usage: StorageUsage }> = ({ usage }) => {
+    const percentage = usage.quotaBytes > 0 ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100) : 0;
+    const isNearlyFull = percentage >= 90;
+
+    return (
+        <div className="text-xs text-gray-400">
+            <div className="flex justify-between mb-1">
+                <span>Archivio del browser</span>
+                <span className={`font-mono ${isNearlyFull ? 'text-red-400 font-semibold' : ''}`}>
+                    {formatBytes(usage.usedBytes)} / {formatBytes(usage.quotaBytes)}
+                </span>
+            </div>
+            <div className="w-full bg-gray-600 rounded-full h-1.5">
+                <div
+                    className={`h-1.5 rounded-full transition-all duration-500 ${isNearlyFull ? 'bg-red-500' : 'bg-green-500'}`}
+                    style={{ width: `${percentage}%` }}
+                ></div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Text setting applied when the field loses focus or Enter is pressed, not on every keystroke:
+ * a half-typed server address or embedding model would otherwise be used for requests.
+ */
+const SettingTextInput: React.FC<{
+    id: string;
+    value: string;
+    onCommit: (value: string) => void;
+}> = ({ id, value, onCommit }) => (
+    <input
+        // Remounting on external changes resets the field to the current value.
+        key={value}
+        id={id}
+        type="text"
+        defaultValue={value}
+        onBlur={(e) => {
+            const newValue = e.target.value.trim();
+            if (newValue && newValue !== value) onCommit(newValue);
+            else e.target.value = value;
+        }}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className="w-full p-2 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600 text-sm"
+    />
+);
+
+// Discrete choices, so that each change re-chunks the knowledge base only once.
+const CHUNK_SIZE_OPTIONS = [256, 500, 800, 1200];
+const CHUNK_OVERLAP_OPTIONS = [0, 50, 100, 200];
+
+/**
+ * Chunk size and overlap, applied only on request: every change re-chunks and re-embeds the whole knowledge base.
+ */
+const ChunkingSettings: React.FC<{
+    maxTokens: number;
+    overlapTokens: number;
+    onApply: (maxTokens: number, overlapTokens: number) => void;
+}> = ({ maxTokens, overlapTokens, onApply }) => {
+    const [draftMaxTokens, setDraftMaxTokens] = useState(maxTokens);
+    const [draftOverlapTokens, setDraftOverlapTokens] = useState(overlapTokens);
+    const isChanged = draftMaxTokens !== maxTokens || draftOverlapTokens !== overlapTokens;
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                    <label htmlFor="chunkMaxTokens" className="block text-sm font-medium text-gray-300">
+                        Dimensione frammenti
+                    </label>
+                    <select
+                        id="chunkMaxTokens"
+                        value={draftMaxTokens}
+                        onChange={(e) => setDraftMaxTokens(parseInt(e.target.value, 10))}
+                        className="w-full p-2 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600"
+                    >
+                        {CHUNK_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size} token</option>)}
+                    </select>
                 </div>
-                <div className="flex justify-between font-medium text-gray-300 mt-1">
-                    <span>Costo Stimato / Turno</span>
-                    <span className="font-mono">~{Math.round(estimatedCostPerTurn).toLocaleString()} tokens</span>
+                <div className="space-y-1">
+                    <label htmlFor="chunkOverlapTokens" className="block text-sm font-medium text-gray-300">
+                        Sovrapposizione
+                    </label>
+                    <select
+                        id="chunkOverlapTokens"
+                        value={draftOverlapTokens}
+                        onChange={(e) => setDraftOverlapTokens(parseInt(e.target.value, 10))}
+                        className="w-full p-2 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600"
+                    >
+                        {CHUNK_OVERLAP_OPTIONS.map(size => <option key={size} value={size}>{size} token</option>)}
+                    </select>
                 </div>
             </div>
-            
-            {/* Sezione 4: Avvisi */}
-            {isOverLimit && (
-                <div className="pt-3 border-t border-gray-600/50">
-                    <p className="text-xs text-center text-red-400">
-                        Hai superato il limite di token. Cancella la chat per continuare.
-                    </p>
+            <p className="text-xs text-gray-500">
+                I frammenti non attraversano mai i titoli delle sezioni. Applicare nuovi valori rielabora tutti i documenti e ne ricalcola gli embedding.
+            </p>
+            {isChanged && (
+                <div className="flex justify-end space-x-2 text-sm">
+                    <button
+                        onClick={() => {
+                            setDraftMaxTokens(maxTokens);
+                            setDraftOverlapTokens(overlapTokens);
+                        }}
+                        className="px-3 py-1 rounded-md hover:bg-gray-700"
+                    >
+                        Annulla
+                    </button>
+                    <button
+                        onClick={() => onApply(draftMaxTokens, draftOverlapTokens)}
+                        className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700"
+                    >
+                        Applica
+                    </button>
                 </div>
             )}
         </div>
     );
 };
 
-
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ 
     settings, 
     onSettingsChange, 
     onLoadRemotePDF,
+    onUploadFiles,
+    uploadReports,
+    onDismissUploadReports,
     onClearKnowledgeBase,
+    documents,
+    onToggleDocument,
+    onDeleteDocument,
+    onReloadDocument,
+    onOpenDocument,
+    reloadingDocumentId,
+    storageUsage,
+    embeddingDocumentCount,
     isParsing,
     knowledgeBaseTokens,
-    sessionTokensUsed,
-    totalTokenLimit,
-    userMessagesCount
+    conversationUsage,
+    lastTurnUsage,
+    budgetSpending,
+    budgetStatus,
+    answerCounts,
+    digest,
+    isDigestStale,
+    digestProgress,
+    onGenerateDigest,
+    onCancelDigest,
+    onDigestChange,
+    onOpenSource,
+    canOpenDocument
 }) => {
     
-    const isKnowledgeBaseLoaded = knowledgeBaseTokens > 0;
+    const isKnowledgeBaseLoaded = documents.length > 0;
+    const modelOptions = PROVIDERS[settings.provider].models;
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = ''; // Allow picking the same file again
+        onUploadFiles(files);
+    };
 
     return (
         <aside className="w-80 flex-shrink-0 bg-gray-800 p-4 space-y-6 overflow-y-auto border-r border-gray-700">
@@ -118,20 +313,64 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </div>
 
             <div className="space-y-2">
-                <label htmlFor="model" className="block text-sm font-medium text-gray-300">
-                    Modello AI
+                <label htmlFor="provider" className="block text-sm font-medium text-gray-300">
+                    Fornitore
                 </label>
                 <select
-                    id="model"
-                    value={settings.model}
-                    onChange={(e) => onSettingsChange({ model: e.target.value })}
+                    id="provider"
+                    value={settings.provider}
+                    onChange={(e) => {
+                        const provider = e.target.value as ProviderId;
+                        onSettingsChange({ provider, model: PROVIDERS[provider].defaultModel });
+                    }}
                     className="w-full p-2 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600"
                 >
-                    <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-                    <option value="gemini-2.5-pro">Gemini 2.5 Pro</option>
+                    {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+                        <option key={id} value={id}>{PROVIDERS[id].label}</option>
+                    ))}
                 </select>
             </div>
 
+            <div className="space-y-2">
+                <label htmlFor="model" className="block text-sm font-medium text-gray-300">
+                    Modello AI
+                </label>
+                {modelOptions ? (
+                    <select
+                        id="model"
+                        value={settings.model}
+                        onChange={(e) => onSettingsChange({ model: e.target.value })}
+                        className="w-full p-2 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600"
+                    >
+                        {modelOptions.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                ) : (
+                    <SettingTextInput id="model" value={settings.model} onCommit={model => onSettingsChange({ model })} />
+                )}
+            </div>
+
+            {settings.provider === 'openai' && (
+                <>
+                    <div className="space-y-2">
+                        <label htmlFor="openAiBaseUrl" className="block text-sm font-medium text-gray-300">
+                            Indirizzo del server
+                        </label>
+                        <SettingTextInput id="openAiBaseUrl" value={settings.openAiBaseUrl} onCommit={openAiBaseUrl => onSettingsChange({ openAiBaseUrl })} />
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="openAiEmbeddingModel" className="block text-sm font-medium text-gray-300">
+                            Modello di embedding
+                        </label>
+                        <SettingTextInput id="openAiEmbeddingModel" value={settings.openAiEmbeddingModel} onCommit={openAiEmbeddingModel => onSettingsChange({ openAiEmbeddingModel })} />
+                        <p className="text-xs text-gray-400">
+                            La chiave API, se richiesta dal server, si imposta nella variabile d'ambiente VITE_OPENAI_API_KEY.
+                        </p>
+                    </div>
+                </>
+            )}
+
             <div className="space-y-2">
                 <label htmlFor="temperature" className="block text-sm font-medium text-gray-300">
                     Temperatura: <span className="font-mono text-blue-400">{settings.temperature.toFixed(1)}</span>
@@ -148,24 +387,187 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 />
             </div>
             
+            <div className="space-y-2">
+                <label htmlFor="retrievalTopK" className="block text-sm font-medium text-gray-300">
+                    Frammenti di contesto: <span className="font-mono text-blue-400">{settings.retrievalTopK}</span>
+                </label>
+                <input
+                    id="retrievalTopK"
+                    type="range"
+                    min="1"
+                    max="15"
+                    step="1"
+                    value={settings.retrievalTopK}
+                    onChange={(e) => onSettingsChange({ retrievalTopK: parseInt(e.target.value, 10) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+            </div>
+
+            <div className="space-y-2">
+                <label htmlFor="retrievalScoreThreshold" className="block text-sm font-medium text-gray-300">
+                    Soglia di pertinenza: <span className="font-mono text-blue-400">{Math.round(settings.retrievalScoreThreshold * 100)}%</span>
+                </label>
+                <input
+                    id="retrievalScoreThreshold"
+                    type="range"
+                    min="0"
+                    max="0.9"
+                    step="0.05"
+                    value={settings.retrievalScoreThreshold}
+                    onChange={(e) => onSettingsChange({ retrievalScoreThreshold: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <p className="text-xs text-gray-500">
+                    Scarta i frammenti con punteggio inferiore a questa percentuale del migliore.
+                </p>
+            </div>
+
+            <div className="space-y-1">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.semanticSearch}
+                        onChange={(e) => onSettingsChange({ semanticSearch: e.target.checked })}
+                        className="accent-blue-500"
+                    />
+                    <span>Ricerca semantica (embedding)</span>
+                </label>
+                <p className="text-xs text-gray-500">
+                    Combina le parole chiave con la similarità di significato, per trovare risposte anche quando la domanda usa parole diverse dai documenti.
+                </p>
+                {embeddingDocumentCount > 0 && (
+                    <div className="flex items-center space-x-2 text-xs text-blue-300">
+                        <LoadingSpinner />
+                        <span>Calcolo embedding per {embeddingDocumentCount} {embeddingDocumentCount === 1 ? 'documento' : 'documenti'}...</span>
+                    </div>
+                )}
+            </div>
+
+            <div className="space-y-1">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.queryRewriting}
+                        onChange={(e) => onSettingsChange({ queryRewriting: e.target.checked })}
+                        className="accent-blue-500"
+                    />
+                    <span>Riformula le domande di seguito</span>
+                </label>
+                <p className="text-xs text-gray-500">
+                    Trasforma domande come "e quanto costa?" in una ricerca completa usando la conversazione precedente. La query usata è mostrata sotto ogni domanda.
+                </p>
+            </div>
+
+            <div className="space-y-1">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.suggestQuestions}
+                        onChange={(e) => onSettingsChange({ suggestQuestions: e.target.checked })}
+                        className="accent-blue-500"
+                    />
+                    <span>Suggerisci domande</span>
+                </label>
+                <p className="text-xs text-gray-500">
+                    Propone domande iniziali tratte dai documenti e, dopo ogni risposta, domande di approfondimento. Richiede una chiamata in più al modello.
+                </p>
+            </div>
+
+            <div className="space-y-2">
+                <label htmlFor="groundingCheck" className="block text-sm font-medium text-gray-300">
+                    Verifica delle risposte
+                </label>
+                <select
+                    id="groundingCheck"
+                    value={settings.groundingCheck}
+                    onChange={(e) => onSettingsChange({ groundingCheck: e.target.value as Settings['groundingCheck'] })}
+                    className="w-full p-2 bg-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 border border-gray-600"
+                >
+                    <option value="lexical">Confronto delle parole (offline)</option>
+                    <option value="llm">Giudizio del modello</option>
+                    <option value="off">Disattivata</option>
+                </select>
+                <p className="text-xs text-gray-500">
+                    Controlla ogni frase della risposta sui frammenti inviati e sottolinea quelle non supportate. Il giudizio del modello è più preciso ma richiede una chiamata in più.
+                </p>
+            </div>
+
+            <div className="space-y-2">
+                <label htmlFor="historyTokenBudget" className="block text-sm font-medium text-gray-300">
+                    Memoria della conversazione: <span className="font-mono text-blue-400">{settings.historyTokenBudget > 0 ? `${settings.historyTokenBudget.toLocaleString()} token` : 'disattivata'}</span>
+                </label>
+                <input
+                    id="historyTokenBudget"
+                    type="range"
+                    min="0"
+                    max="16000"
+                    step="1000"
+                    value={settings.historyTokenBudget}
+                    onChange={(e) => onSettingsChange({ historyTokenBudget: parseInt(e.target.value, 10) })}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <p className="text-xs text-gray-500">
+                    I turni precedenti oltre questo limite vengono riassunti automaticamente.
+                </p>
+            </div>
+
+            <ChunkingSettings
+                // Remounting on applied changes resets the draft to the current values.
+                key={`${settings.chunkMaxTokens}-${settings.chunkOverlapTokens}`}
+                maxTokens={settings.chunkMaxTokens}
+                overlapTokens={settings.chunkOverlapTokens}
+                onApply={(chunkMaxTokens, chunkOverlapTokens) => onSettingsChange({ chunkMaxTokens, chunkOverlapTokens })}
+            />
+
             <div className="space-y-4">
                  <div>
                     <label className="block text-sm font-medium text-gray-300">
-                        Base di Conoscenza (PDF)
+                        Base di Conoscenza
                     </label>
                     <p className="text-xs text-gray-400 mt-1">
-                        Le risposte del chatbot si basano esclusivamente su un documento PDF caricato da remoto.
+                        Le risposte del chatbot si basano esclusivamente sui documenti attivi della raccolta.
+                        Puoi anche trascinare i file nella finestra.
                     </p>
                 </div>
 
                 <TokenEstimator 
                     knowledgeBaseTokens={knowledgeBaseTokens}
-                    sessionTokensUsed={sessionTokensUsed}
-                    totalTokenLimit={totalTokenLimit}
-                    userMessagesCount={userMessagesCount}
+                    conversationUsage={conversationUsage}
+                    lastTurnUsage={lastTurnUsage}
+                    contextTokenBudget={settings.retrievalTopK * settings.chunkMaxTokens}
+                    historyTokenBudget={settings.historyTokenBudget}
+                />
+
+                <BudgetPanel
+                    budgets={settings.budgets}
+                    warningPercent={settings.budgetWarningPercent}
+                    spending={budgetSpending}
+                    status={budgetStatus}
+                    onSettingsChange={onSettingsChange}
                 />
+
+                {answerCounts.answered + answerCounts.not_found + answerCounts.off_topic > 0 && (
+                    <AnswerOutcomes counts={answerCounts} />
+                )}
                
                 <div className="space-y-2">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        accept={ACCEPTED_FILE_EXTENSIONS.join(',')}
+                        onChange={handleFileInputChange}
+                        className="hidden"
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isParsing}
+                        className="w-full flex items-center justify-center space-x-2 p-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={`Formati supportati: ${ACCEPTED_FILE_EXTENSIONS.join(', ')}`}
+                    >
+                        <UploadIcon />
+                        <span>Carica file</span>
+                    </button>
                      <button
                         onClick={onLoadRemotePDF}
                         disabled={isParsing}
@@ -179,25 +581,48 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                         ) : (
                             <>
                                 <SourceIcon className="w-5 h-5"/>
-                                <span>{isKnowledgeBaseLoaded ? "Ricarica Knowledge Base" : "Carica Knowledge Base"}</span>
+                                <span>Carica PDF remoto (doc.pdf)</span>
                             </>
                         )}
                     </button>
                 </div>
+
+                <UploadReportList reports={uploadReports} onDismiss={onDismissUploadReports} />
                 
-                {isKnowledgeBaseLoaded && !isParsing && (
-                     <div className="p-3 bg-gray-700/50 rounded-lg text-xs text-gray-400 border border-gray-600 flex justify-between items-center">
-                        <p>
-                           Documento <span className="font-semibold text-gray-300">doc.pdf</span> caricato.
-                        </p>
-                        <button 
+                <div className="space-y-2">
+                    {storageUsage && <StorageUsageIndicator usage={storageUsage} />}
+                    <DocumentList
+                        documents={documents}
+                        onToggleDocument={onToggleDocument}
+                        onDeleteDocument={onDeleteDocument}
+                        onReloadDocument={onReloadDocument}
+                        onOpenDocument={onOpenDocument}
+                        reloadingDocumentId={reloadingDocumentId}
+                        disabled={isParsing}
+                    />
+                    {isKnowledgeBaseLoaded && !isParsing && (
+                        <button
                             onClick={onClearKnowledgeBase}
-                            className="text-gray-400 hover:text-white font-bold text-lg leading-none flex-shrink-0 ml-2"
-                            title="Rimuovi knowledge base"
+                            className="w-full text-xs text-gray-400 hover:text-white transition-colors"
+                            title="Rimuovi tutti i documenti"
                         >
-                            &times;
+                            Rimuovi tutti i documenti
                         </button>
-                    </div>
+                    )}
+                </div>
+
+                {(isKnowledgeBaseLoaded || digest) && (
+                    <DigestPanel
+                        digest={digest}
+                        isStale={isDigestStale}
+                        progress={digestProgress}
+                        canGenerate={isKnowledgeBaseLoaded && !isParsing}
+                        onGenerate={onGenerateDigest}
+                        onCancel={onCancelDigest}
+                        onChange={onDigestChange}
+                        onOpenSource={onOpenSource}
+                        canOpenDocument={canOpenDocument}
+                    />
                 )}
             </div>
 
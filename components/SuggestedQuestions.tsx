@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface SuggestedQuestionsProps {
+    questions: string[];
+    /** Sends the question as if it had been typed. */
+    onSelect: (question: string) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Shows suggested questions as chips that send the question when clicked.
+ */
+const SuggestedQuestions: React.FC<SuggestedQuestionsProps> = ({ questions, onSelect, disabled = false }) => {
+    if (questions.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap gap-2 mb-2" aria-label="Domande suggerite">
+            {questions.map(question => (
+                <button
+                    key={question}
+                    type="button"
+                    onClick={() => onSelect(question)}
+                    disabled={disabled}
+                    className="px-3 py-1 text-xs text-left rounded-full bg-gray-800 border border-gray-600 text-gray-200 hover:bg-gray-700 hover:border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    {question}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default SuggestedQuestions;
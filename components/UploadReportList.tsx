@@ -0,0 +1,67 @@
+import React from 'react';
+import type { FileUploadReport } from '../types';
+import CheckIcon from './icons/CheckIcon';
+
+interface UploadReportListProps {
+    reports: FileUploadReport[];
+    onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<FileUploadReport['status'], string> = {
+    pending: 'In attesa',
+    parsing: 'Estrazione...',
+    done: 'Caricato',
+    error: 'Errore',
+};
+
+const UploadReportList: React.FC<UploadReportListProps> = ({ reports, onDismiss }) => {
+    if (reports.length === 0) return null;
+
+    const isFinished = reports.every(report => report.status === 'done' || report.status === 'error');
+
+    return (
+        <div className="p-3 bg-gray-700/50 rounded-lg border border-gray-600 space-y-2">
+            <div className="flex justify-between items-center">
+                <h3 className="text-xs font-semibold text-white">Caricamento file</h3>
+                {isFinished && (
+                    <button
+                        onClick={onDismiss}
+                        className="text-gray-400 hover:text-white font-bold text-lg leading-none"
+                        title="Chiudi riepilogo"
+                    >
+                        &times;
+                    </button>
+                )}
+            </div>
+            <ul className="space-y-2">
+                {reports.map(report => (
+                    <li key={report.id} className="text-xs">
+                        <div className="flex justify-between items-center gap-2">
+                            <span className="truncate text-gray-300" title={report.fileName}>{report.fileName}</span>
+                            {report.status === 'done' ? (
+                                <CheckIcon />
+                            ) : (
+                                <span className={`flex-shrink-0 ${report.status === 'error' ? 'text-red-400' : 'text-gray-400'}`}>
+                                    {report.status === 'parsing'
+                                        ? `${Math.round(report.progress * 100)}%`
+                                        : STATUS_LABELS[report.status]}
+                                </span>
+                            )}
+                        </div>
+                        {report.status === 'parsing' && (
+                            <div className="w-full bg-gray-600 rounded-full h-1.5 mt-1">
+                                <div
+                                    className="h-1.5 rounded-full bg-blue-500 transition-all duration-300"
+                                    style={{ width: `${Math.round(report.progress * 100)}%` }}
+                                ></div>
+                            </div>
+                        )}
+                        {report.error && <p className="text-red-400 mt-0.5">{report.error}</p>}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default UploadReportList;
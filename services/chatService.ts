@@ -0,0 +1,250 @@
+import type { Settings, Message } from "../types";
+import type { ChatRequest, LlmProvider } from "./llmProvider";
+import { stripCitations } from "../utils/citations";
+import { ANSWER_SCHEMA } from "../utils/structuredAnswer";
+
+export const DEFAULT_SYSTEM_INSTRUCTION = `Sei un Assistente di Conoscenza dedicato e specializzato. Il tuo compito è rispondere alle domande degli utenti basandosi ESCLUSIVAMENTE sui documenti e sui dati che ti sono stati forniti tramite la funzione di "Grounding" (la base di conoscenza collegata).
+
+Obiettivo:
+Fornire risposte accurate, veritiere e contestualizzate unicamente nel materiale di riferimento fornito.
+
+Regole Operative CRUCIALI (Non Negoziabili):
+1. Esclusività della Fonte: Ogni risposta deve provenire direttamente o essere una sintesi logica e diretta del materiale di riferimento (i tuoi documenti).
+2. No Congetture: NON DEVI in alcun caso inventare informazioni, fare congetture, o utilizzare la tua conoscenza generale per rispondere alle domande.
+3. Gestione dell'Informazione Mancante: Se la risposta a una domanda non è esplicitamente presente, menzionata o direttamente deducibile dai documenti che ti sono stati forniti, devi indicarlo con lo stato "not_found" e rispondere in modo chiaro e cortese: "Mi dispiace, ma l'informazione richiesta non è presente nei documenti a mia disposizione." NON aggiungere altre frasi o scuse.
+4. Citazione delle Fonti: Ogni affermazione deve essere seguita dal numero del frammento da cui proviene, tra parentesi quadre, per esempio [1] o [2, 3]. Cita solo i numeri dei frammenti che ti sono stati forniti. Non dire "Nei documenti c'è scritto...". Rispondi direttamente.
+5. Focus sul Contesto: Mantieni sempre la conversazione all'interno del perimetro della base di conoscenza. Se l'utente devia con domande non pertinenti, indicalo con lo stato "off_topic" e riporta gentilmente la conversazione sull'argomento, per esempio dicendo: "Il mio scopo è rispondere a domande basate sui documenti forniti. Hai qualche domanda su questo argomento?".
+6. Linguaggio e Tono: Usa un tono professionale, chiaro, conciso e servizievole. Evita il gergo a meno che non sia presente nei documenti di riferimento.
+
+La tua identità è quella di un assistente AI, non fingere di essere un umano. La tua priorità assoluta è l'accuratezza e l'aderenza ai dati forniti.`;
+
+
+// Appended to the system instruction, which the user may have customized, so the answer format holds for any instruction.
+const ANSWER_FORMAT_INSTRUCTION = `Rispondi sempre con un oggetto JSON con questi campi:
+- status: "answered" se rispondi in base ai documenti forniti, "not_found" se l'informazione richiesta non è presente nei documenti, "off_topic" se la domanda non riguarda l'argomento della base di conoscenza;
+- confidence: quanto sei sicuro, da 0 a 1, che la risposta sia corretta e completa secondo i documenti;
+- citedChunks: i numeri dei frammenti su cui si basa la risposta (vuoto se non ne usi nessuno);
+- answer: il testo della risposta per l'utente, in Markdown, con le citazioni tra parentesi quadre.`;
+
+// Each history message is cut to this length in the condensation prompt; the subject of a follow-up is rarely further in.
+const CONDENSE_MAX_MESSAGE_CHARS = 1000;
+
+const formatTranscript = (messages: Message[], maxMessageChars?: number): string => messages
+    .filter(msg => msg.text.trim())
+    .map(msg => `${msg.role === 'user' ? 'Utente' : 'Assistente'}: ${maxMessageChars ? msg.text.slice(0, maxMessageChars) : msg.text}`)
+    .join('\n');
+
+/**
+ * Rewrites a follow-up question as a standalone search query, resolving references to earlier turns
+ * (e.g. "e quanto costa?" after a question about a product becomes "prezzo del prodotto X").
+ * @param provider The provider answering the request.
+ * @param question The latest user question.
+ * @param history The preceding messages of the conversation, oldest first.
+ * @param model The model used for the rewrite.
+ * @param signal Cancels the request when aborted.
+ * @returns The standalone query, or the question unchanged if the model returns nothing.
+ */
+export async function condenseQuery(provider: LlmProvider, question: string, history: Message[], model: string, signal?: AbortSignal): Promise<string> {
+    const transcript = formatTranscript(history, CONDENSE_MAX_MESSAGE_CHARS);
+
+    const response = await provider.generate({
+        model,
+        messages: [{ role: 'user', text: `Conversazione precedente:\n${transcript}\n\nUltima domanda: ${question}` }],
+        systemInstruction: "Riscrivi l'ultima domanda dell'utente come una query di ricerca autonoma, comprensibile senza la conversazione precedente: sostituisci pronomi e riferimenti impliciti con gli argomenti a cui si riferiscono. Se la domanda è già autonoma, restituiscila invariata. Rispondi solo con la query, nella lingua della domanda, senza virgolette né spiegazioni.",
+        temperature: 0,
+        signal,
+    });
+
+    const query = response.text.trim().replace(/^["«]|["»]$/g, '').trim();
+    return query || question;
+}
+
+/**
+ * Folds older messages into the running summary of a conversation.
+ * @param provider The provider answering the request.
+ * @param previousSummary The current summary, or an empty string.
+ * @param messages The messages to add to the summary, oldest first.
+ * @param model The model used for the summary.
+ * @param signal Cancels the request when aborted.
+ * @returns The updated summary.
+ */
+export async function summarizeConversation(provider: LlmProvider, previousSummary: string, messages: Message[], model: string, signal?: AbortSignal): Promise<string> {
+    const response = await provider.generate({
+        model,
+        messages: [{
+            role: 'user',
+            text: `Riepilogo attuale:\n${previousSummary || '(nessuno)'}\n\nNuovi messaggi:\n${formatTranscript(messages)}`,
+        }],
+        systemInstruction: "Aggiorna il riepilogo di una conversazione tra un utente e un assistente integrando i nuovi messaggi. Conserva gli argomenti trattati, le domande dell'utente e i fatti, le cifre e le opzioni citati nelle risposte, in modo che l'assistente possa farvi riferimento in seguito. Scrivi al massimo 200 parole, in terza persona, senza introduzioni.",
+        temperature: 0,
+        signal,
+    });
+
+    return response.text.trim() || previousSummary;
+}
+
+/**
+ * Builds the chat request answering the user's message from the retrieved context.
+ * The reply is a JSON document following `ANSWER_SCHEMA`, to be read with `parseStructuredAnswer`.
+ * @param prompt The user's message.
+ * @param settings The current model and temperature settings.
+ * @param context The relevant chunks of text from the knowledge base for the current prompt.
+ * @param history The recent messages of the conversation, oldest first, starting with a user message.
+ * @param summary A summary of the older messages that are no longer sent verbatim.
+ * @param signal Cancels the request when aborted.
+ */
+export function buildChatRequest(
+    prompt: string,
+    settings: Settings,
+    context: string,
+    history: Message[] = [],
+    summary?: string,
+    signal?: AbortSignal
+): ChatRequest {
+    // The relevant context is concatenated with the base system instruction.
+    // This provides the model with focused information to answer the user's query.
+    const instructionWithContext = context
+        ? `${settings.systemInstruction}\n\nUsa le seguenti informazioni per rispondere alla domanda dell'utente. Queste informazioni sono i frammenti più rilevanti estratti da una base di conoscenza più ampia, ciascuno preceduto dal suo numero tra parentesi quadre. Cita i frammenti su cui si basa ogni affermazione con il loro numero, per esempio [1] o [2, 3], e non citare numeri che non compaiono qui:\n\n--- INIZIO CONTESTO RILEVANTE ---\n${context}\n--- FINE CONTESTO RILEVANTE ---`
+        : settings.systemInstruction;
+    const instructionWithSummary = summary
+        ? `${instructionWithContext}\n\nRiepilogo della parte precedente della conversazione:\n${summary}`
+        : instructionWithContext;
+
+    return {
+        model: settings.model,
+        messages: [
+            // Citation numbers of earlier answers refer to their own context, so they are removed;
+            // failed answers are error notices, not part of the conversation.
+            ...history.filter(msg => msg.text.trim() && !msg.failed).map(msg => ({ role: msg.role, text: stripCitations(msg.text) })),
+            { role: 'user', text: prompt },
+        ],
+        systemInstruction: `${instructionWithSummary}\n\n${ANSWER_FORMAT_INSTRUCTION}`,
+        temperature: settings.temperature,
+        responseSchema: ANSWER_SCHEMA,
+        signal,
+    };
+}
+
+const JUDGE_SCHEMA = {
+    type: 'object',
+    properties: {
+        verdicts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    claim: { type: 'integer' },
+                    supported: { type: 'boolean' },
+                },
+                required: ['claim', 'supported'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['verdicts'],
+    additionalProperties: false,
+};
+
+/**
+ * Asks the model whether each claim of an answer is supported by the context the answer was given.
+ * @param provider The provider answering the request.
+ * @param claims The sentences to check.
+ * @param context The numbered chunks sent with the question.
+ * @param model The model acting as judge.
+ * @param signal Cancels the request when aborted.
+ * @returns One verdict per claim, in order; `undefined` where the model gave none.
+ */
+export async function judgeClaims(provider: LlmProvider, claims: string[], context: string, model: string, signal?: AbortSignal): Promise<(boolean | undefined)[]> {
+    const response = await provider.generate({
+        model,
+        messages: [{
+            role: 'user',
+            text: `Frammenti:\n${context}\n\nAffermazioni:\n${claims.map((claim, i) => `${i + 1}. ${claim}`).join('\n')}`,
+        }],
+        systemInstruction: "Verifica se ogni affermazione numerata è supportata dai frammenti forniti. Un'affermazione è supportata solo se i frammenti la affermano esplicitamente o se ne segue direttamente; in caso di dubbio, o se contiene dettagli (cifre, nomi, condizioni) assenti dai frammenti, non è supportata. Rispondi con un verdetto per ogni affermazione, indicandone il numero.",
+        temperature: 0,
+        responseSchema: JUDGE_SCHEMA,
+        signal,
+    });
+
+    const { verdicts } = JSON.parse(response.text) as { verdicts: { claim: number; supported: boolean }[] };
+    return claims.map((_, i) => verdicts.find(verdict => verdict.claim === i + 1)?.supported);
+}
+
+const QUESTIONS_SCHEMA = {
+    type: 'object',
+    properties: {
+        questions: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['questions'],
+    additionalProperties: false,
+};
+
+const parseQuestions = (text: string, count: number): string[] => {
+    const { questions } = JSON.parse(text) as { questions: string[] };
+    return questions.map(question => question.trim()).filter(Boolean).slice(0, count);
+};
+
+/**
+ * Writes questions a user could ask about a knowledge base, to help them get started.
+ * @param provider The provider answering the request.
+ * @param context Numbered excerpts spread across the knowledge base.
+ * @param count The number of questions wanted.
+ * @param model The model writing the questions.
+ * @param signal Cancels the request when aborted.
+ */
+export async function suggestStarterQuestions(provider: LlmProvider, context: string, count: number, model: string, signal?: AbortSignal): Promise<string[]> {
+    const response = await provider.generate({
+        model,
+        messages: [{ role: 'user', text: `Estratti della base di conoscenza:\n${context}` }],
+        systemInstruction: `Scrivi ${count} domande brevi e concrete che un utente potrebbe fare a un assistente che conosce questi documenti. Ogni domanda deve avere risposta negli estratti forniti, riguardare un argomento diverso dalle altre ed essere comprensibile senza conoscere gli estratti. Scrivi nella lingua dei documenti, senza numerazione.`,
+        temperature: 0.7,
+        responseSchema: QUESTIONS_SCHEMA,
+        signal,
+    });
+
+    return parseQuestions(response.text, count);
+}
+
+/**
+ * Writes a short title for a conversation from its first exchange.
+ * @param provider The provider answering the request.
+ * @param question The first question of the conversation.
+ * @param answer Its answer, without citations.
+ * @param model The model writing the title.
+ * @param signal Cancels the request when aborted.
+ */
+export async function suggestConversationTitle(provider: LlmProvider, question: string, answer: string, model: string, signal?: AbortSignal): Promise<string> {
+    const response = await provider.generate({
+        model,
+        messages: [{ role: 'user', text: `Domanda: ${question}\n\nRisposta: ${answer}` }],
+        systemInstruction: "Scrivi un titolo di al massimo 6 parole che descriva l'argomento di questa conversazione. Rispondi solo con il titolo, senza virgolette né punteggiatura finale, nella lingua della domanda.",
+        temperature: 0,
+        signal,
+    });
+
+    return response.text.trim().replace(/^["'«]+|["'».]+$/g, '').trim();
+}
+
+/**
+ * Writes questions that naturally follow an answer, among those the knowledge base can answer.
+ * @param provider The provider answering the request.
+ * @param question The question just answered.
+ * @param answer The answer, without citations.
+ * @param context Numbered excerpts next to those the answer was based on.
+ * @param count The number of questions wanted.
+ * @param model The model writing the questions.
+ * @param signal Cancels the request when aborted.
+ */
+export async function suggestFollowUpQuestions(provider: LlmProvider, question: string, answer: string, context: string, count: number, model: string, signal?: AbortSignal): Promise<string[]> {
+    const response = await provider.generate({
+        model,
+        messages: [{ role: 'user', text: `Domanda: ${question}\n\nRisposta: ${answer}\n\nAltri estratti della base di conoscenza:\n${context}` }],
+        systemInstruction: `Suggerisci ${count} domande di approfondimento che l'utente potrebbe fare dopo questa risposta. Ogni domanda deve avere risposta negli estratti forniti, non ripetere quanto già detto nella risposta ed essere breve e comprensibile da sola. Scrivi nella lingua della domanda, senza numerazione.`,
+        temperature: 0.7,
+        responseSchema: QUESTIONS_SCHEMA,
+        signal,
+    });
+
+    return parseQuestions(response.text, count);
+}
@@ -0,0 +1,164 @@
+import type { ChunkReference, DocumentDigest, FaqEntry, KnowledgeChunk, KnowledgeDigest, KnowledgeDocument } from "../types";
+import type { LlmProvider } from "./llmProvider";
+import { buildContext, toMessageSources } from "../utils/retrieval";
+import { batchChunks, mergeEntities, outlineFromHeadings } from "../utils/digest";
+import { knowledgeBaseFingerprint } from "../utils/suggestions";
+
+// Estimated tokens of the chunks summarized in each map request.
+const DIGEST_BATCH_TOKENS = 6000;
+const DIGEST_MAX_ENTITIES = 30;
+const DIGEST_MAX_FAQ = 30;
+
+const MAP_SCHEMA = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string' },
+        topics: { type: 'array', items: { type: 'string' } },
+        entities: { type: 'array', items: { type: 'string' } },
+        faq: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    question: { type: 'string' },
+                    answer: { type: 'string' },
+                    chunks: { type: 'array', items: { type: 'integer' } },
+                },
+                required: ['question', 'answer', 'chunks'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['summary', 'topics', 'entities', 'faq'],
+    additionalProperties: false,
+};
+
+interface BatchDigest {
+    summary: string;
+    topics: string[];
+    entities: string[];
+    faq: { question: string; answer: string; chunks: number[] }[];
+}
+
+export interface DigestProgress {
+    /** Requests completed so far. */
+    completed: number;
+    total: number;
+}
+
+const toReference = (chunk: KnowledgeChunk, documentTitle: string): ChunkReference => ({
+    chunkId: chunk.id,
+    documentId: chunk.documentId,
+    documentTitle,
+    pageStart: chunk.pageStart,
+    pageEnd: chunk.pageEnd,
+});
+
+/**
+ * Summarizes a batch of consecutive chunks of a document (the map step).
+ */
+async function digestBatch(provider: LlmProvider, batch: KnowledgeChunk[], documents: KnowledgeDocument[], model: string, signal?: AbortSignal): Promise<BatchDigest> {
+    const response = await provider.generate({
+        model,
+        messages: [{ role: 'user', text: `Frammenti:\n${buildContext(toMessageSources(batch, documents))}` }],
+        systemInstruction: "Analizza questi frammenti consecutivi di un documento. Scrivi un riassunto fedele di al massimo 120 parole, elenca gli argomenti trattati nell'ordine in cui compaiono, le entità principali (persone, organizzazioni, prodotti, luoghi, termini tecnici) e fino a 3 coppie domanda/risposta che un utente potrebbe cercare, con la risposta tratta solo dai frammenti e i numeri dei frammenti su cui si basa. Scrivi nella lingua dei frammenti.",
+        temperature: 0,
+        responseSchema: MAP_SCHEMA,
+        signal,
+    });
+    return JSON.parse(response.text) as BatchDigest;
+}
+
+/**
+ * Combines the summaries of the batches of a document into one (the reduce step).
+ */
+async function combineSummaries(provider: LlmProvider, title: string, summaries: string[], model: string, signal?: AbortSignal): Promise<string> {
+    const response = await provider.generate({
+        model,
+        messages: [{ role: 'user', text: `Documento: ${title}\n\nRiassunti delle parti, in ordine:\n${summaries.map((summary, i) => `${i + 1}. ${summary}`).join('\n')}` }],
+        systemInstruction: "Unisci i riassunti delle parti di un documento in un unico riassunto coerente di al massimo 250 parole, che ne presenti lo scopo e i contenuti principali. Non aggiungere informazioni assenti dai riassunti. Rispondi solo con il riassunto, nella lingua dei riassunti.",
+        temperature: 0,
+        signal,
+    });
+    return response.text.trim();
+}
+
+/**
+ * Builds the digest of the enabled documents: each batch of chunks is summarized on its own, then the
+ * summaries of each document are combined, while entities and FAQ entries are merged across batches.
+ * Requests are sent one at a time, to stay within the rate limits of the provider.
+ * @param provider The provider answering the requests.
+ * @param documents The knowledge base documents; disabled ones are skipped.
+ * @param chunksByDocument The chunks of each document, in document order.
+ * @param model The model writing the digest.
+ * @param onProgress Called after each request.
+ * @param signal Cancels the job when aborted.
+ */
+export async function buildKnowledgeDigest(
+    provider: LlmProvider,
+    documents: KnowledgeDocument[],
+    chunksByDocument: Record<string, KnowledgeChunk[]>,
+    model: string,
+    onProgress?: (progress: DigestProgress) => void,
+    signal?: AbortSignal
+): Promise<KnowledgeDigest> {
+    const plans = documents
+        .filter(doc => doc.enabled && (chunksByDocument[doc.id]?.length ?? 0) > 0)
+        .map(doc => ({ doc, chunks: chunksByDocument[doc.id], batches: batchChunks(chunksByDocument[doc.id], DIGEST_BATCH_TOKENS) }));
+    const total = plans.reduce((sum, plan) => sum + plan.batches.length + (plan.batches.length > 1 ? 1 : 0), 0);
+    let completed = 0;
+    const advance = () => onProgress?.({ completed: ++completed, total });
+    onProgress?.({ completed, total });
+
+    const documentDigests: DocumentDigest[] = [];
+    const entityBatches: string[][] = [];
+    const faq: FaqEntry[] = [];
+    const seenQuestions = new Set<string>();
+
+    for (const { doc, chunks, batches } of plans) {
+        const results: BatchDigest[] = [];
+        for (const batch of batches) {
+            const result = await digestBatch(provider, batch, documents, model, signal);
+            results.push(result);
+            entityBatches.push(result.entities);
+            for (const entry of result.faq) {
+                const key = entry.question.trim().toLowerCase();
+                if (!key || seenQuestions.has(key)) continue;
+                seenQuestions.add(key);
+                faq.push({
+                    id: crypto.randomUUID(),
+                    question: entry.question.trim(),
+                    answer: entry.answer.trim(),
+                    references: entry.chunks
+                        .map(number => batch[number - 1])
+                        .filter((chunk): chunk is KnowledgeChunk => chunk !== undefined)
+                        .map(chunk => toReference(chunk, doc.title)),
+                    approved: false,
+                });
+            }
+            advance();
+        }
+
+        const summary = results.length > 1
+            ? await combineSummaries(provider, doc.title, results.map(result => result.summary), model, signal)
+            : results[0].summary;
+        if (results.length > 1) advance();
+
+        const outline = outlineFromHeadings(chunks);
+        documentDigests.push({
+            documentId: doc.id,
+            title: doc.title,
+            summary,
+            // Without headings, the topics found in each batch stand in for the sections.
+            outline: outline.length > 0 ? outline : results.flatMap(result => result.topics).map(title => ({ level: 1, title })),
+        });
+    }
+
+    return {
+        fingerprint: knowledgeBaseFingerprint(documents),
+        createdAt: Date.now(),
+        documents: documentDigests,
+        entities: mergeEntities(entityBatches, DIGEST_MAX_ENTITIES),
+        faq: faq.slice(0, DIGEST_MAX_FAQ),
+    };
+}
@@ -1,66 +1,140 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import type { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import type { ChatRequest, LlmProvider, TokenUsage } from "./llmProvider";
+import { LlmError, MissingApiKeyError, NetworkError, errorFromResponse, isAbortError } from "./llmErrors";
 
-
-import { GoogleGenAI } from "@google/genai";
-import type { Settings } from "../types";
-
-export const DEFAULT_SYSTEM_INSTRUCTION = `Sei un Assistente di Conoscenza dedicato e specializzato. Il tuo compito è rispondere alle domande degli utenti basandosi ESCLUSIVAMENTE sui documenti e sui dati che ti sono stati forniti tramite la funzione di "Grounding" (la base di conoscenza collegata).
-
-Obiettivo:
-Fornire risposte accurate, veritiere e contestualizzate unicamente nel materiale di riferimento fornito.
-
-Regole Operative CRUCIALI (Non Negoziabili):
-1. Esclusività della Fonte: Ogni risposta deve provenire direttamente o essere una sintesi logica e diretta del materiale di riferimento (i tuoi documenti).
-2. No Congetture: NON DEVI in alcun caso inventare informazioni, fare congetture, o utilizzare la tua conoscenza generale per rispondere alle domande.
-3. Gestione dell'Informazione Mancante: Se la risposta a una domanda non è esplicitamente presente, menzionata o direttamente deducibile dai documenti che ti sono stati forniti, devi rispondere in modo chiaro e cortese: "Mi dispiace, ma l'informazione richiesta non è presente nei documenti a mia disposizione." NON aggiungere altre frasi o scuse.
-4. Citazione delle Fonti: Sebbene tu non possa mostrare direttamente il documento, agisci come se avessi accesso diretto ad esso e basa le tue risposte su quello. Non dire "Nei documenti c'è scritto...". Rispondi direttamente.
-5. Focus sul Contesto: Mantieni sempre la conversazione all'interno del perimetro della base di conoscenza. Se l'utente devia con domande non pertinenti, riporta gentilmente la conversazione sull'argomento, per esempio dicendo: "Il mio scopo è rispondere a domande basate sui documenti forniti. Hai qualche domanda su questo argomento?".
-6. Linguaggio e Tono: Usa un tono professionale, chiaro, conciso e servizievole. Evita il gergo a meno che non sia presente nei documenti di riferimento.
-
-La tua identità è quella di un assistente AI, non fingere di essere un umano. La tua priorità assoluta è l'accuratezza e l'aderenza ai dati forniti.`;
-
+export const EMBEDDING_MODEL = 'gemini-embedding-001';
+export const EMBEDDING_DIMENSIONS = 768;
+// The embedding endpoint accepts at most 100 texts per request.
+const EMBEDDING_BATCH_SIZE = 100;
 
 /**
- * Initializes the Gemini model and runs a streaming chat session.
- * @param prompt The user's message.
- * @param settings The current model and temperature settings.
- * @param context The relevant chunks of text from the knowledge base for the current prompt.
- * @returns An async iterable stream of chat chunks.
+ * Creates a Gemini client with the API key from the environment.
+ * @throws A `MissingApiKeyError` if no key is configured.
  */
-export async function runChatStream(
-    prompt: string,
-    settings: Settings,
-    context: string
-) {
+const createClient = (): GoogleGenAI => {
     // Per le applicazioni Vite distribuite su servizi come Netlify, le variabili d'ambiente
     // esposte al client devono avere il prefisso VITE_ e sono accessibili tramite `import.meta.env`.
     // Questo corregge il problema per cui la chiave API non veniva trovata.
     // `process.env.API_KEY` viene mantenuto come fallback per altri ambienti.
-    // FIX: Cast `import.meta` to `any` to access `env` and avoid TypeScript errors when `vite/client` types are not available.
-    const apiKey = (import.meta as any).env?.VITE_API_KEY || process.env.API_KEY;
+    // Fuori da Vite (ad esempio con l'importmap di index.html) `import.meta.env` non è definito.
+    const apiKey = import.meta.env?.VITE_API_KEY || process.env.API_KEY;
 
     if (!apiKey) {
-        throw new Error("API_KEY_MISSING");
+        throw new MissingApiKeyError("API_KEY_MISSING");
+    }
+
+    return new GoogleGenAI({ apiKey });
+};
+
+/**
+ * Turns an error of the Gemini SDK into the matching `LlmError`. Aborts are returned unchanged.
+ */
+const toLlmError = (error: unknown): unknown => {
+    if (error instanceof LlmError || isAbortError(error)) return error;
+    if (error instanceof ApiError) {
+        // Rate limit responses carry the suggested wait in their details, e.g. "retryDelay": "30s".
+        const retryDelay = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(error.message);
+        return errorFromResponse(error.status, error.message, retryDelay ? parseFloat(retryDelay[1]) * 1000 : undefined);
     }
+    // `fetch` rejects with a TypeError when the server cannot be reached.
+    if (error instanceof TypeError) return new NetworkError(error.message, { cause: error });
+    return new LlmError(error instanceof Error ? error.message : String(error), { cause: error });
+};
+
+const toParameters = (request: ChatRequest): GenerateContentParameters => ({
+    model: request.model,
+    contents: request.messages.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+    config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        abortSignal: request.signal,
+        ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema } : {}),
+    },
+});
+
+const toUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+    const metadata = response.usageMetadata;
+    if (metadata?.totalTokenCount === undefined) return undefined;
+    const promptTokens = metadata.promptTokenCount ?? 0;
+    const thinkingTokens = metadata.thoughtsTokenCount ?? 0;
+    return {
+        promptTokens,
+        completionTokens: metadata.candidatesTokenCount ?? metadata.totalTokenCount - promptTokens - thinkingTokens,
+        thinkingTokens,
+        totalTokens: metadata.totalTokenCount,
+    };
+};
+
+/**
+ * Creates the provider backed by the Gemini API, with the API key from the environment.
+ */
+export const createGeminiProvider = (): LlmProvider => ({
+    id: 'gemini',
+    embeddingModel: EMBEDDING_MODEL,
 
-    const ai = new GoogleGenAI({ apiKey });
+    async *streamChat(request) {
+        try {
+            const ai = createClient();
+            const response = await ai.models.generateContentStream(toParameters(request));
+            for await (const chunk of response) {
+                yield { text: chunk.text ?? '', usage: toUsage(chunk) };
+            }
+        } catch (e) {
+            throw toLlmError(e);
+        }
+    },
 
-    // The relevant context is concatenated with the base system instruction.
-    // This provides the model with focused information to answer the user's query.
-    const instructionWithContext = context
-        ? `${settings.systemInstruction}\n\nUsa le seguenti informazioni per rispondere alla domanda dell'utente. Queste informazioni sono i frammenti più rilevanti estratti da una base di conoscenza più ampia:\n\n--- INIZIO CONTESTO RILEVANTE ---\n${context}\n--- FINE CONTESTO RILEVANTE ---`
-        : settings.systemInstruction;
+    async generate(request) {
+        try {
+            const ai = createClient();
+            const response = await ai.models.generateContent(toParameters(request));
+            return { text: response.text ?? '', usage: toUsage(response) };
+        } catch (e) {
+            throw toLlmError(e);
+        }
+    },
 
+    async embed(texts, taskType, signal) {
+        try {
+            const ai = createClient();
+            const vectors: number[][] = [];
 
-    // Use the modern `generateContentStream` method for streaming responses.
-    const response = await ai.models.generateContentStream({
-        model: settings.model,
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-            systemInstruction: instructionWithContext,
-            temperature: settings.temperature,
+            for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+                const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+                const response = await ai.models.embedContent({
+                    model: EMBEDDING_MODEL,
+                    contents: batch,
+                    config: { taskType, outputDimensionality: EMBEDDING_DIMENSIONS, abortSignal: signal },
+                });
+                const embeddings = response.embeddings ?? [];
+                if (embeddings.length !== batch.length) {
+                    throw new LlmError(`Embedding incompleti: attesi ${batch.length}, ricevuti ${embeddings.length}.`);
+                }
+                vectors.push(...embeddings.map(embedding => embedding.values ?? []));
+            }
+
+            return vectors;
+        } catch (e) {
+            throw toLlmError(e);
         }
-    });
+    },
 
-    // The calling function expects an async iterable, which `response` already is.
-    return response;
-}
+    async countTokens(request) {
+        try {
+            const ai = createClient();
+            // The Gemini API does not accept a system instruction when counting, so it is counted as a leading turn.
+            const turns = request.systemInstruction
+                ? [{ role: 'user', text: request.systemInstruction }, ...request.messages]
+                : request.messages;
+            const response = await ai.models.countTokens({
+                model: request.model,
+                contents: turns.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+                config: { abortSignal: request.signal },
+            });
+            return response.totalTokens ?? 0;
+        } catch (e) {
+            throw toLlmError(e);
+        }
+    },
+});
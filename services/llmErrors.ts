@@ -0,0 +1,88 @@
+/**
+ * Base class of the errors thrown by providers. `retryable` tells whether the same request may succeed later.
+ */
+export class LlmError extends Error {
+    readonly retryable: boolean;
+    /** HTTP status of the failed request, when there was a response. */
+    readonly status?: number;
+
+    constructor(message: string, options: { retryable?: boolean; status?: number; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = new.target.name;
+        this.retryable = options.retryable ?? false;
+        this.status = options.status;
+    }
+}
+
+/** No API key is configured for the provider. */
+export class MissingApiKeyError extends LlmError {}
+
+/** The API key was rejected or lacks the needed permissions. */
+export class AuthenticationError extends LlmError {}
+
+/** The account behind the key has a billing problem. */
+export class BillingError extends LlmError {}
+
+/** The request does not fit the model's context window. */
+export class ContextLengthError extends LlmError {}
+
+/** Too many requests or tokens in a period of time; retried after a wait. */
+export class RateLimitError extends LlmError {
+    /** Wait suggested by the server, in milliseconds. */
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, options: { status?: number; cause?: unknown; retryAfterMs?: number } = {}) {
+        super(message, { ...options, retryable: true });
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/** The server could not be reached or the connection dropped. */
+export class NetworkError extends LlmError {
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super(message, { ...options, retryable: true });
+    }
+}
+
+/** The server failed (5xx) or is overloaded. */
+export class ServerError extends LlmError {
+    constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+        super(message, { ...options, retryable: true });
+    }
+}
+
+/** The server refused the request for another reason (invalid model, malformed request...). */
+export class RequestError extends LlmError {}
+
+/**
+ * Builds the error for a failed HTTP response from its status and body.
+ * @param retryAfterMs Wait suggested by the server (`Retry-After` header or equivalent), for rate limits.
+ */
+export const errorFromResponse = (status: number, message: string, retryAfterMs?: number): LlmError => {
+    if (status === 429) return new RateLimitError(message, { status, retryAfterMs });
+    if (/billing/i.test(message)) return new BillingError(message, { status });
+    if (status === 401 || status === 403 || /API.*?key.*?(not.*?valid|invalid)|API_KEY_INVALID/i.test(message)) {
+        return new AuthenticationError(message, { status });
+    }
+    if (/token.*?limit|context.*?length|too.*?long|exceeds.*?maximum.*?tokens/i.test(message)) {
+        return new ContextLengthError(message, { status });
+    }
+    if (status >= 500 || status === 408) return new ServerError(message, { status });
+    return new RequestError(message, { status });
+};
+
+/**
+ * Parses a `Retry-After` header (seconds or HTTP date) into milliseconds.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Whether an error comes from aborting the request, which must propagate unchanged rather than be classified or retried.
+ */
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
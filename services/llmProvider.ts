@@ -0,0 +1,141 @@
+import type { ProviderId, Settings } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiProvider } from "./openAiService";
+import { createMockProvider } from "./mockProvider";
+
+export type EmbeddingTaskType = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface ChatRequest {
+    model: string;
+    systemInstruction: string;
+    /** The conversation, oldest first, ending with the message to answer. */
+    messages: ChatTurn[];
+    temperature: number;
+    /** JSON schema the reply must follow; the reply text is then a JSON document. */
+    responseSchema?: object;
+    /** Aborting the signal cancels the request; the pending call rejects with an `AbortError`. */
+    signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    /** Tokens of the reply, without the thinking tokens. */
+    completionTokens: number;
+    /** Reasoning tokens of thinking models, when reported; billed as output. */
+    thinkingTokens?: number;
+    totalTokens: number;
+}
+
+export interface ChatStreamChunk {
+    text: string;
+    /** Reported by the provider, usually on the last chunk only. */
+    usage?: TokenUsage;
+}
+
+export interface ChatResponse {
+    text: string;
+    usage?: TokenUsage;
+}
+
+/**
+ * A backend able to answer chat requests and embed texts.
+ */
+export interface LlmProvider {
+    id: ProviderId;
+    /** Identifies the vector space of `embed`: vectors from different models must never be compared. */
+    embeddingModel: string;
+    streamChat: (request: ChatRequest) => AsyncIterable<ChatStreamChunk>;
+    generate: (request: ChatRequest) => Promise<ChatResponse>;
+    embed: (texts: string[], taskType: EmbeddingTaskType, signal?: AbortSignal) => Promise<number[][]>;
+    /** Counts the prompt tokens of a request without sending it; missing when the backend has no such API. */
+    countTokens?: (request: ChatRequest) => Promise<number>;
+}
+
+export interface ProviderInfo {
+    label: string;
+    defaultModel: string;
+    /** Models offered in the settings; when missing, the model name is typed in. */
+    models?: { value: string; label: string }[];
+    /** Cheaper model switched to when a budget is running out. */
+    economyModel?: string;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+    gemini: {
+        label: 'Google Gemini',
+        defaultModel: 'gemini-2.5-flash',
+        models: [
+            { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+            { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+        ],
+        economyModel: 'gemini-2.5-flash',
+    },
+    openai: {
+        label: 'Compatibile OpenAI (Ollama, vLLM...)',
+        defaultModel: 'llama3.1',
+    },
+    mock: {
+        label: 'Simulato (offline)',
+        defaultModel: 'mock',
+        models: [{ value: 'mock', label: 'Risposte simulate' }],
+    },
+};
+
+/**
+ * Creates the provider selected in the settings.
+ */
+export const createProvider = (settings: Pick<Settings, 'provider' | 'openAiBaseUrl' | 'openAiEmbeddingModel'>): LlmProvider => {
+    switch (settings.provider) {
+        case 'openai':
+            return createOpenAiProvider({ baseUrl: settings.openAiBaseUrl, embeddingModel: settings.openAiEmbeddingModel });
+        case 'mock':
+            return createMockProvider();
+        default:
+            return createGeminiProvider();
+    }
+};
+
+/**
+ * Creates the error thrown by providers when a request is cancelled, matching the one thrown by `fetch`.
+ */
+export const createAbortError = (): DOMException => new DOMException('The operation was aborted.', 'AbortError');
+
+
+/**
+ * Waits for the given time, rejecting with an `AbortError` as soon as the signal is aborted.
+ */
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    }, { once: true });
+});
+
+/**
+ * Wraps a provider so that the usage of each chat request is reported, once the request completes.
+ */
+export const createMeteredProvider = (provider: LlmProvider, onUsage: (usage: TokenUsage) => void): LlmProvider => ({
+    ...provider,
+
+    async *streamChat(request) {
+        let usage: TokenUsage | undefined;
+        for await (const chunk of provider.streamChat(request)) {
+            usage = chunk.usage ?? usage;
+            yield chunk;
+        }
+        if (usage) onUsage(usage);
+    },
+
+    async generate(request) {
+        const response = await provider.generate(request);
+        if (response.usage) onUsage(response.usage);
+        return response;
+    },
+});
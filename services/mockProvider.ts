@@ -0,0 +1,120 @@
+import type { ChatRequest, LlmProvider, TokenUsage } from "./llmProvider";
+import { createAbortError, delay } from "./llmProvider";
+import { createHashingEmbedder } from "../utils/embeddings";
+import { estimateTokens } from "../utils/knowledgeBase";
+
+/** A scripted reply: fixed text, or computed from the request. */
+export type MockReply = string | ((request: ChatRequest) => string);
+
+export interface MockProviderOptions {
+    /**
+     * Replies returned in order, by both chat and generate calls. Once they are used up, `fallback` answers;
+     * without one, chat echoes the question and generate returns an empty text, which leaves rewritten queries and summaries unchanged,
+     * or the smallest JSON document following the requested schema, such as no suggested questions.
+     */
+    replies?: MockReply[];
+    fallback?: MockReply;
+    /** Delay between streamed words, in milliseconds. */
+    chunkDelayMs?: number;
+}
+
+export interface MockProvider extends LlmProvider {
+    /** Every request received, oldest first, for assertions in tests. */
+    requests: ChatRequest[];
+}
+
+const countPromptTokens = (request: ChatRequest): number =>
+    estimateTokens(request.systemInstruction + request.messages.map(msg => msg.text).join(''));
+
+const lastUserText = (request: ChatRequest): string =>
+    [...request.messages].reverse().find(msg => msg.role === 'user')?.text ?? '';
+
+const DEFAULT_CHAT_REPLY: MockReply = request => {
+    const answer = `Risposta simulata a: "${lastUserText(request)}".`;
+    return request.responseSchema
+        ? JSON.stringify({ status: 'answered', confidence: 1, citedChunks: [], answer })
+        : answer;
+};
+
+/** The parts of a JSON schema the mock reads to build a reply. */
+interface JsonSchema {
+    type?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    enum?: unknown[];
+}
+
+/**
+ * The smallest value following a JSON schema: required properties only, empty arrays and strings, zeros.
+ */
+const emptyValue = (schema: JsonSchema): unknown => {
+    if (Array.isArray(schema.enum)) return schema.enum[0];
+    switch (schema.type) {
+        case 'object': {
+            const properties = schema.properties ?? {};
+            const keys = schema.required ?? Object.keys(properties);
+            return Object.fromEntries(keys.map(key => [key, emptyValue(properties[key] ?? {})]));
+        }
+        case 'array':
+            return [];
+        case 'string':
+            return '';
+        case 'number':
+        case 'integer':
+            return 0;
+        case 'boolean':
+            return false;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Creates an offline provider that answers with scripted replies, streaming them word by word.
+ * Embeddings come from the hashing embedder, so retrieval works without network access.
+ */
+export const createMockProvider = ({ replies = [], fallback, chunkDelayMs = 30 }: MockProviderOptions = {}): MockProvider => {
+    const embedder = createHashingEmbedder();
+    const queue = [...replies];
+    const requests: ChatRequest[] = [];
+
+    const reply = (request: ChatRequest, defaultReply: MockReply): { text: string; usage: TokenUsage } => {
+        requests.push(request);
+        const next = queue.shift() ?? fallback ?? defaultReply;
+        const text = typeof next === 'function' ? next(request) : next;
+        const promptTokens = countPromptTokens(request);
+        const completionTokens = estimateTokens(text);
+        return { text, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } };
+    };
+
+    return {
+        id: 'mock',
+        embeddingModel: embedder.model,
+        requests,
+
+        async *streamChat(request) {
+            const { text, usage } = reply(request, DEFAULT_CHAT_REPLY);
+            const words = text.match(/\S+\s*/g) ?? [];
+            for (let i = 0; i < words.length; i++) {
+                await delay(chunkDelayMs, request.signal);
+                yield { text: words[i], usage: i === words.length - 1 ? usage : undefined };
+            }
+        },
+
+        async generate(request) {
+            await delay(chunkDelayMs, request.signal);
+            return reply(request, request.responseSchema ? JSON.stringify(emptyValue(request.responseSchema as JsonSchema)) : '');
+        },
+
+        async embed(texts, taskType, signal) {
+            if (signal?.aborted) throw createAbortError();
+            return embedder.embed(texts, taskType);
+        },
+
+        async countTokens(request) {
+            if (request.signal?.aborted) throw createAbortError();
+            return countPromptTokens(request);
+        },
+    };
+};
@@ -0,0 +1,151 @@
+import type { ChatRequest, LlmProvider, TokenUsage } from "./llmProvider";
+import { LlmError, NetworkError, errorFromResponse, isAbortError, parseRetryAfter } from "./llmErrors";
+
+export interface OpenAiProviderOptions {
+    /** Base URL of the API, including the version, e.g. `http://localhost:11434/v1` for Ollama. */
+    baseUrl: string;
+    embeddingModel: string;
+}
+
+interface OpenAiUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    /** Reported by reasoning models; the reasoning tokens are included in `completion_tokens`. */
+    completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// Texts sent per embedding request, to keep request bodies small on local servers.
+const EMBEDDING_BATCH_SIZE = 64;
+
+const toUsage = (usage: OpenAiUsage | null | undefined): TokenUsage | undefined => {
+    if (!usage) return undefined;
+    const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+    return {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens - thinkingTokens,
+        thinkingTokens,
+        totalTokens: usage.total_tokens,
+    };
+};
+
+/**
+ * Turns a failure while talking to the server into the matching `LlmError`. Aborts are returned unchanged.
+ */
+const toLlmError = (error: unknown): unknown => {
+    if (error instanceof LlmError || isAbortError(error)) return error;
+    // `fetch` and stream reads reject with a TypeError when the connection fails.
+    if (error instanceof TypeError) return new NetworkError(error.message, { cause: error });
+    return new LlmError(error instanceof Error ? error.message : String(error), { cause: error });
+};
+
+const toBody = (request: ChatRequest, stream: boolean) => ({
+    model: request.model,
+    messages: [
+        { role: 'system', content: request.systemInstruction },
+        ...request.messages.map(msg => ({ role: msg.role === 'model' ? 'assistant' : 'user', content: msg.text })),
+    ],
+    temperature: request.temperature,
+    stream,
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
+    ...(request.responseSchema
+        ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema, strict: true } } }
+        : {}),
+});
+
+/**
+ * Creates a provider for servers exposing the OpenAI chat completions and embeddings API,
+ * such as Ollama, vLLM or LM Studio. The API key, if the server needs one, is read from `VITE_OPENAI_API_KEY`.
+ */
+export const createOpenAiProvider = ({ baseUrl, embeddingModel }: OpenAiProviderOptions): LlmProvider => {
+    // `import.meta.env` is only defined when the app is served by Vite.
+    const apiKey = import.meta.env?.VITE_OPENAI_API_KEY;
+    const root = baseUrl.replace(/\/+$/, '');
+
+    const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${root}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const details = await response.text().catch(() => '');
+            throw errorFromResponse(
+                response.status,
+                `${response.status} ${response.statusText}${details ? `: ${details}` : ''}`,
+                parseRetryAfter(response.headers.get('Retry-After'))
+            );
+        }
+        return response;
+    };
+
+    return {
+        id: 'openai',
+        embeddingModel,
+
+        async *streamChat(request) {
+            try {
+                const response = await post('/chat/completions', toBody(request, true), request.signal);
+                if (!response.body) throw new LlmError("Risposta in streaming non supportata dal server.");
+
+                // The stream is a sequence of server-sent events, one JSON chunk per `data:` line.
+                const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+                let buffer = '';
+                while (true) {
+                    const { value, done } = await reader.read();
+                    if (done) break;
+                    buffer += value;
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() ?? '';
+                    for (const line of lines.map(l => l.trim())) {
+                        if (!line.startsWith('data:')) continue;
+                        const data = line.slice('data:'.length).trim();
+                        if (data === '[DONE]') continue;
+                        const chunk = JSON.parse(data);
+                        yield {
+                            text: chunk.choices?.[0]?.delta?.content ?? '',
+                            usage: toUsage(chunk.usage),
+                        };
+                    }
+                }
+            } catch (e) {
+                throw toLlmError(e);
+            }
+        },
+
+        async generate(request) {
+            try {
+                const response = await post('/chat/completions', toBody(request, false), request.signal);
+                const result = await response.json();
+                return {
+                    text: result.choices?.[0]?.message?.content ?? '',
+                    usage: toUsage(result.usage),
+                };
+            } catch (e) {
+                throw toLlmError(e);
+            }
+        },
+
+        async embed(texts, _taskType, signal) {
+            try {
+                const vectors: number[][] = [];
+                for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+                    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+                    const response = await post('/embeddings', { model: embeddingModel, input: batch }, signal);
+                    const result: { data: { index: number; embedding: number[] }[] } = await response.json();
+                    if (result.data.length !== batch.length) {
+                        throw new LlmError(`Embedding incompleti: attesi ${batch.length}, ricevuti ${result.data.length}.`);
+                    }
+                    vectors.push(...[...result.data].sort((a, b) => a.index - b.index).map(item => item.embedding));
+                }
+                return vectors;
+            } catch (e) {
+                throw toLlmError(e);
+            }
+        },
+    };
+};
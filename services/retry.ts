@@ -0,0 +1,96 @@
+import type { LlmProvider } from "./llmProvider";
+import { delay } from "./llmProvider";
+import { LlmError, RateLimitError } from "./llmErrors";
+
+/** A failed attempt that is about to be retried. */
+export interface RetryEvent {
+    /** The attempt that is about to start, from 2 on. */
+    attempt: number;
+    maxAttempts: number;
+    /** Wait before the attempt starts, in milliseconds. */
+    delayMs: number;
+    error: LlmError;
+}
+
+export interface RetryOptions {
+    /** Attempts in total, including the first one. */
+    maxAttempts: number;
+    /** Wait before the first retry; it doubles at each further retry. */
+    baseDelayMs: number;
+    /** Upper bound of any wait, including the one suggested by the server. */
+    maxDelayMs: number;
+    onRetry?: (event: RetryEvent) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+/**
+ * Computes the wait before retrying after the given failed attempt (1-based): exponential backoff with jitter,
+ * so that clients failing together do not retry together, or the wait suggested by the server for rate limits.
+ */
+export const retryDelay = (attempt: number, error: LlmError, options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>): number => {
+    const backoff = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+    const jittered = backoff / 2 + Math.random() * backoff / 2;
+    const suggested = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+    return Math.round(Math.min(Math.max(jittered, suggested ?? 0), options.maxDelayMs));
+};
+
+const isRetryable = (error: unknown): error is LlmError => error instanceof LlmError && error.retryable;
+
+/**
+ * Runs an operation, retrying it while it fails with a retryable `LlmError` and attempts are left.
+ * Aborting the signal stops the wait between attempts; aborts are never retried.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (e) {
+            if (!isRetryable(e) || attempt >= options.maxAttempts || signal?.aborted) throw e;
+            const delayMs = retryDelay(attempt, e, options);
+            options.onRetry?.({ attempt: attempt + 1, maxAttempts: options.maxAttempts, delayMs, error: e });
+            await delay(delayMs, signal);
+        }
+    }
+};
+
+/**
+ * Wraps a provider so that its requests are retried on transient failures. A streamed answer is only retried
+ * if it failed before its first chunk: once text has been shown, restarting it would repeat it.
+ */
+export const createRetryingProvider = (provider: LlmProvider, options: Partial<RetryOptions> = {}): LlmProvider => {
+    const retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+    return {
+        id: provider.id,
+        embeddingModel: provider.embeddingModel,
+
+        async *streamChat(request) {
+            for (let attempt = 1; ; attempt++) {
+                let hasStarted = false;
+                try {
+                    for await (const chunk of provider.streamChat(request)) {
+                        hasStarted = true;
+                        yield chunk;
+                    }
+                    return;
+                } catch (e) {
+                    if (hasStarted || !isRetryable(e) || attempt >= retryOptions.maxAttempts || request.signal?.aborted) throw e;
+                    const delayMs = retryDelay(attempt, e, retryOptions);
+                    retryOptions.onRetry?.({ attempt: attempt + 1, maxAttempts: retryOptions.maxAttempts, delayMs, error: e });
+                    await delay(delayMs, request.signal);
+                }
+            }
+        },
+
+        generate: request => withRetry(() => provider.generate(request), retryOptions, request.signal),
+
+        embed: (texts, taskType, signal) => withRetry(() => provider.embed(texts, taskType, signal), retryOptions, signal),
+
+        countTokens: provider.countTokens && (request => withRetry(() => provider.countTokens!(request), retryOptions, request.signal)),
+    };
+};
@@ -0,0 +1,344 @@
+import type { KnowledgeDocument, KnowledgeChunk, KnowledgeDigest, Settings, Conversation } from "../types";
+import { createKnowledgeDocument } from "../utils/knowledgeBase";
+import type { StarterQuestions } from "../utils/suggestions";
+import type { SpentAmount, UsageLedger } from "../utils/budget";
+import { addToLedger, EMPTY_LEDGER } from "../utils/budget";
+
+const DB_NAME = 'chatchok';
+const DB_VERSION = 2;
+
+const STORE_DOCUMENTS = 'documents';
+const STORE_CHUNKS = 'chunks';
+const STORE_INDEXES = 'indexes';
+const STORE_SETTINGS = 'settings';
+const STORE_CONVERSATIONS = 'conversations';
+const STORE_FILES = 'files';
+
+const SETTINGS_KEY = 'settings';
+// Kept with the settings, so that clearing conversations or the knowledge base does not reset the budgets.
+const USAGE_LEDGER_KEY = 'usage-ledger';
+// Kept with the retrieval indexes, so that they are cleared with the knowledge base.
+const STARTER_QUESTIONS_KEY = 'starter-questions';
+const DIGEST_KEY = 'digest';
+
+// Keys used by the localStorage-based persistence of earlier versions.
+const LEGACY_DOCUMENTS_KEY = 'chatchok-documents';
+const LEGACY_KNOWLEDGE_BASE_KEY = 'chatchok-knowledge-base';
+const LEGACY_SETTINGS_KEY = 'chatSettings';
+const LEGACY_DOCUMENT_SOURCE = 'https://www.theround.it/ai/chatchok/doc.pdf';
+
+// Other tabs are told to reload the knowledge base through this channel, since
+// IndexedDB has no equivalent of the `storage` event.
+const CHANGES_CHANNEL = 'chatchok-storage';
+
+interface StoredChunks {
+    documentId: string;
+    chunks: KnowledgeChunk[];
+}
+
+interface StoredFile {
+    documentId: string;
+    data: Blob;
+}
+
+export interface StorageUsage {
+    usedBytes: number;
+    quotaBytes: number;
+}
+
+/**
+ * Schema migrations, indexed by the version they upgrade to.
+ * Each migration runs inside the `versionchange` transaction, so a failure rolls back the whole upgrade.
+ * To change the schema, bump `DB_VERSION` and append a migration: never edit one that has shipped.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+    1: (db, tx) => {
+        db.createObjectStore(STORE_DOCUMENTS, { keyPath: 'id' });
+        db.createObjectStore(STORE_CHUNKS, { keyPath: 'documentId' });
+        db.createObjectStore(STORE_INDEXES);
+        db.createObjectStore(STORE_SETTINGS);
+        const conversations = db.createObjectStore(STORE_CONVERSATIONS, { keyPath: 'id' });
+        conversations.createIndex('updatedAt', 'updatedAt');
+
+        importLegacyLocalStorage(tx);
+    },
+    2: (db) => {
+        // Original bytes of uploaded documents, for the document viewer.
+        db.createObjectStore(STORE_FILES, { keyPath: 'documentId' });
+    },
+};
+
+/**
+ * Copies the knowledge base and settings kept in localStorage by earlier versions into the new stores.
+ * Chunks are not copied: they are recomputed by the app for documents that have none.
+ */
+const importLegacyLocalStorage = (tx: IDBTransaction) => {
+    try {
+        const savedDocuments = localStorage.getItem(LEGACY_DOCUMENTS_KEY);
+        const legacyText = localStorage.getItem(LEGACY_KNOWLEDGE_BASE_KEY);
+        const documents: KnowledgeDocument[] = savedDocuments ? JSON.parse(savedDocuments) : [];
+        if (documents.length === 0 && legacyText) {
+            documents.push(createKnowledgeDocument({ text: legacyText }, 'doc.pdf', LEGACY_DOCUMENT_SOURCE));
+        }
+        documents.forEach(doc => tx.objectStore(STORE_DOCUMENTS).put(doc));
+
+        const savedSettings = localStorage.getItem(LEGACY_SETTINGS_KEY);
+        if (savedSettings) {
+            tx.objectStore(STORE_SETTINGS).put(JSON.parse(savedSettings), SETTINGS_KEY);
+        }
+
+        tx.addEventListener('complete', () => {
+            localStorage.removeItem(LEGACY_DOCUMENTS_KEY);
+            localStorage.removeItem(LEGACY_KNOWLEDGE_BASE_KEY);
+            localStorage.removeItem(LEGACY_SETTINGS_KEY);
+        });
+    } catch (e) {
+        console.error("Failed to import legacy localStorage data", e);
+    }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const tx = request.transaction!;
+            for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+                MIGRATIONS[version]?.(db, tx);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Let a newer version of the app in another tab upgrade the schema.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    // Ask the browser not to evict the knowledge base under storage pressure.
+    navigator.storage?.persist?.().catch(() => undefined);
+
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transazione IndexedDB annullata."));
+});
+
+const notifyChange = () => {
+    try {
+        const channel = new BroadcastChannel(CHANGES_CHANNEL);
+        channel.postMessage('documents-changed');
+        channel.close();
+    } catch {
+        // BroadcastChannel is unavailable in some embedded browsers; cross-tab sync is best effort.
+    }
+};
+
+/**
+ * Subscribes to knowledge base changes made in other tabs.
+ * @returns A function that removes the subscription.
+ */
+export const subscribeToDocumentChanges = (onChange: () => void): (() => void) => {
+    try {
+        const channel = new BroadcastChannel(CHANGES_CHANNEL);
+        channel.onmessage = (event) => {
+            if (event.data === 'documents-changed') onChange();
+        };
+        return () => channel.close();
+    } catch {
+        return () => undefined;
+    }
+};
+
+// --- Documents and chunks ---
+
+/**
+ * Loads every document together with its precomputed chunks.
+ * @returns The documents sorted by load date, and their chunks keyed by document id.
+ */
+export const loadKnowledgeBase = async (): Promise<{ documents: KnowledgeDocument[]; chunksByDocument: Record<string, KnowledgeChunk[]> }> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_DOCUMENTS, STORE_CHUNKS], 'readonly');
+    const [documents, storedChunks] = await Promise.all([
+        requestToPromise(tx.objectStore(STORE_DOCUMENTS).getAll() as IDBRequest<KnowledgeDocument[]>),
+        requestToPromise(tx.objectStore(STORE_CHUNKS).getAll() as IDBRequest<StoredChunks[]>),
+    ]);
+
+    const chunksByDocument: Record<string, KnowledgeChunk[]> = {};
+    storedChunks.forEach(entry => { chunksByDocument[entry.documentId] = entry.chunks; });
+
+    return { documents: documents.sort((a, b) => a.loadedAt - b.loadedAt), chunksByDocument };
+};
+
+/**
+ * Saves a document and, if given, its chunks and original file in a single transaction.
+ */
+export const saveDocument = async (document: KnowledgeDocument, chunks?: KnowledgeChunk[], file?: Blob): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_DOCUMENTS, STORE_CHUNKS, STORE_FILES], 'readwrite');
+    tx.objectStore(STORE_DOCUMENTS).put(document);
+    if (chunks) {
+        tx.objectStore(STORE_CHUNKS).put({ documentId: document.id, chunks } satisfies StoredChunks);
+    }
+    if (file) {
+        tx.objectStore(STORE_FILES).put({ documentId: document.id, data: file } satisfies StoredFile);
+    }
+    await transactionDone(tx);
+    notifyChange();
+};
+
+/**
+ * Loads the original file of a document, if it was stored.
+ */
+export const loadDocumentFile = async (documentId: string): Promise<Blob | undefined> => {
+    const db = await openDatabase();
+    const stored: StoredFile | undefined = await requestToPromise(
+        db.transaction(STORE_FILES, 'readonly').objectStore(STORE_FILES).get(documentId)
+    );
+    return stored?.data;
+};
+
+/**
+ * Removes a document, its chunks and its original file.
+ */
+export const deleteDocument = async (documentId: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_DOCUMENTS, STORE_CHUNKS, STORE_FILES], 'readwrite');
+    tx.objectStore(STORE_DOCUMENTS).delete(documentId);
+    tx.objectStore(STORE_CHUNKS).delete(documentId);
+    tx.objectStore(STORE_FILES).delete(documentId);
+    await transactionDone(tx);
+    notifyChange();
+};
+
+/**
+ * Removes every document, chunk, original file and retrieval index.
+ */
+export const clearKnowledgeBase = async (): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_DOCUMENTS, STORE_CHUNKS, STORE_FILES, STORE_INDEXES], 'readwrite');
+    tx.objectStore(STORE_DOCUMENTS).clear();
+    tx.objectStore(STORE_CHUNKS).clear();
+    tx.objectStore(STORE_FILES).clear();
+    tx.objectStore(STORE_INDEXES).clear();
+    await transactionDone(tx);
+    notifyChange();
+};
+
+// --- Retrieval indexes ---
+
+export const loadIndex = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(STORE_INDEXES, 'readonly').objectStore(STORE_INDEXES).get(key));
+};
+
+export const saveIndex = async <T>(key: string, index: T): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_INDEXES, 'readwrite');
+    tx.objectStore(STORE_INDEXES).put(index, key);
+    await transactionDone(tx);
+};
+
+export const loadStarterQuestions = (): Promise<StarterQuestions | undefined> => loadIndex<StarterQuestions>(STARTER_QUESTIONS_KEY);
+
+export const saveStarterQuestions = (questions: StarterQuestions): Promise<void> => saveIndex(STARTER_QUESTIONS_KEY, questions);
+
+export const loadDigest = (): Promise<KnowledgeDigest | undefined> => loadIndex<KnowledgeDigest>(DIGEST_KEY);
+
+export const saveDigest = (digest: KnowledgeDigest): Promise<void> => saveIndex(DIGEST_KEY, digest);
+
+// --- Settings ---
+
+export const loadSettings = async (): Promise<Partial<Settings> | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(STORE_SETTINGS, 'readonly').objectStore(STORE_SETTINGS).get(SETTINGS_KEY));
+};
+
+export const saveSettings = async (settings: Settings): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_SETTINGS, 'readwrite');
+    tx.objectStore(STORE_SETTINGS).put(settings, SETTINGS_KEY);
+    await transactionDone(tx);
+};
+
+// --- Spending ---
+
+export const loadUsageLedger = async (): Promise<UsageLedger> => {
+    const db = await openDatabase();
+    const ledger: UsageLedger | undefined = await requestToPromise(db.transaction(STORE_SETTINGS, 'readonly').objectStore(STORE_SETTINGS).get(USAGE_LEDGER_KEY));
+    return ledger ?? EMPTY_LEDGER;
+};
+
+/**
+ * Adds an amount to the ledger within a single transaction, so that tabs spending together do not lose updates.
+ * @returns The updated ledger.
+ */
+export const recordSpending = async (amount: SpentAmount): Promise<UsageLedger> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_SETTINGS, 'readwrite');
+    const store = tx.objectStore(STORE_SETTINGS);
+    const ledger: UsageLedger | undefined = await requestToPromise(store.get(USAGE_LEDGER_KEY));
+    const updated = addToLedger(ledger ?? EMPTY_LEDGER, amount);
+    store.put(updated, USAGE_LEDGER_KEY);
+    await transactionDone(tx);
+    return updated;
+};
+
+// --- Conversations ---
+
+/**
+ * Loads every stored conversation, most recently updated first.
+ */
+export const loadConversations = async (): Promise<Conversation[]> => {
+    const db = await openDatabase();
+    const conversations: Conversation[] = await requestToPromise(
+        db.transaction(STORE_CONVERSATIONS, 'readonly').objectStore(STORE_CONVERSATIONS).index('updatedAt').getAll()
+    );
+    return conversations.reverse();
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_CONVERSATIONS, 'readwrite');
+    tx.objectStore(STORE_CONVERSATIONS).put(conversation);
+    await transactionDone(tx);
+};
+
+export const deleteConversation = async (conversationId: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_CONVERSATIONS, 'readwrite');
+    tx.objectStore(STORE_CONVERSATIONS).delete(conversationId);
+    await transactionDone(tx);
+};
+
+// --- Usage ---
+
+/**
+ * Reports how much storage the app uses and how much the browser allows.
+ * @returns The usage, or null if the browser doesn't expose it.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usedBytes: usage, quotaBytes: quota };
+};
@@ -1,13 +1,363 @@
-
 export type Role = 'user' | 'model';
 
 export interface Message {
     role: Role;
     text: string;
+    /** Epoch milliseconds of when the message was sent or the answer started. */
+    createdAt?: number;
+    /** For user messages: the query actually used for retrieval, when it differs from `text`. */
+    searchQuery?: string;
+    /** For model messages: how the context of the answer was retrieved. */
+    retrieval?: RetrievalTrace;
+    /** For model messages: the numbered context chunks the answer can cite as [1], [2], ... */
+    sources?: MessageSource[];
+    /** For model messages: the model's own assessment of the answer, returned with it as structured output. */
+    assessment?: AnswerAssessment;
+    /** For model messages: how well the claims of the answer are supported by its sources, checked once it is complete. */
+    grounding?: GroundingResult;
+    /** For model messages: the user stopped the answer before it was complete. */
+    stopped?: boolean;
+    /** For model messages: the request failed and the text explains the error instead of answering. */
+    failed?: boolean;
+    /** For model messages: follow-up questions suggested after the answer, drawn from nearby chunks. */
+    suggestions?: string[];
+    /** For model messages: the tokens spent on the turn. */
+    usage?: MessageUsage;
+    /** For model messages: the conversation snapshot holding the settings and knowledge base of the answer. */
+    snapshotId?: string;
+    /** For user messages: the versions of the conversation from this message on, when it was edited and resent. */
+    branches?: MessageBranches;
+}
+
+/**
+ * Tokens spent to answer a question: counted before sending, then replaced by those reported by the API.
+ */
+export interface MessageUsage {
+    /** The model that answered, which sets the price of the tokens. */
+    model: string;
+    /** Tokens sent with the question, including the instructions, the context and the history. */
+    promptTokens: number;
+    /** Part of the prompt made of the knowledge base chunks, as counted before sending. */
+    contextTokens: number;
+    outputTokens: number;
+    /** Reasoning tokens of thinking models, billed as output. */
+    thinkingTokens: number;
+    /** Prompt tokens of the other requests of the turn: query rewriting, summary, grounding judge and suggestions. */
+    auxiliaryPromptTokens: number;
+    /** Output tokens, thinking included, of the other requests of the turn. */
+    auxiliaryOutputTokens: number;
+    /** Some counts are estimates: the answer was interrupted, or the provider does not report usage. */
+    estimated: boolean;
+}
+
+/**
+ * Alternative continuations of a conversation from an edited user message.
+ */
+export interface MessageBranches {
+    /**
+     * Every version of the conversation from the edited message on, oldest first. The entry of the active version
+     * is only updated when switching away from it: until then, the live conversation is authoritative.
+     */
+    versions: Message[][];
+    active: number;
+}
+
+/** Whether the question could be answered from the knowledge base. */
+export type AnswerStatus = 'answered' | 'not_found' | 'off_topic';
+
+export interface AnswerAssessment {
+    status: AnswerStatus;
+    /** Between 0 and 1, as estimated by the model. */
+    confidence?: number;
+    /** The chunks the model reports having used, among those sent as context. */
+    citedChunkIds: string[];
+}
+
+/** A sentence of an answer, checked against the chunks sent as context. */
+export interface GroundingClaim {
+    /** The sentence as displayed, without citation markers. */
+    text: string;
+    supported: boolean;
+    /** Fraction of the sentence's terms found in the best matching chunk. */
+    overlap: number;
+    /** The best matching chunk, if any term matched. */
+    chunkId?: string;
+}
+
+export interface GroundingResult {
+    /** `llm` when a model judged the claims, `lexical` when only term overlap was used. */
+    method: 'lexical' | 'llm';
+    /** Fraction of claims supported, from 0 to 1. */
+    score: number;
+    claims: GroundingClaim[];
+}
+
+/** A context chunk sent with a question, as cited by number in the answer. */
+export interface MessageSource {
+    /** The number the model cites the chunk with, starting at 1. */
+    number: number;
+    chunkId: string;
+    documentId: string;
+    documentTitle: string;
+    headingPath: string[];
+    pageStart?: number;
+    pageEnd?: number;
+    text: string;
 }
 
+/** A chunk considered for an answer's context, as recorded in its retrieval trace. */
+export interface RetrievalTraceCandidate {
+    chunkId: string;
+    documentId: string;
+    documentTitle: string;
+    headingPath: string[];
+    pageStart?: number;
+    pageEnd?: number;
+    /** The beginning of the chunk text. */
+    preview: string;
+    tokenCount: number;
+    rank: number;
+    score: number;
+    lexicalRank?: number;
+    lexicalScore?: number;
+    semanticRank?: number;
+    semanticScore?: number;
+    sent: boolean;
+}
+
+/** Estimated size of each part of the prompt sent to the model. */
+export interface PromptTokenBreakdown {
+    systemInstruction: number;
+    context: number;
+    summary: number;
+    history: number;
+    question: number;
+    total: number;
+}
+
+/**
+ * Everything needed to tell whether a wrong answer comes from retrieval or from generation.
+ */
+export interface RetrievalTrace {
+    question: string;
+    /** The query the chunks were retrieved with (rewritten or overridden). */
+    query: string;
+    mode: 'hybrid' | 'lexical';
+    topK: number;
+    scoreThreshold: number;
+    candidates: RetrievalTraceCandidate[];
+    sentChunkIds: string[];
+    historyMessageCount: number;
+    promptTokens: PromptTokenBreakdown;
+    /** Prompt tokens reported by the API, once the answer is complete. */
+    promptTokenCount?: number;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
 export interface Settings {
+  provider: ProviderId;
   model: string;
   temperature: number;
   systemInstruction: string;
+  /** Maximum number of chunks sent to the model as context. */
+  retrievalTopK: number;
+  /** Chunks scoring below this fraction of the best match are dropped (0 disables the cutoff). */
+  retrievalScoreThreshold: number;
+  /** Combine BM25 with embedding similarity (requires embeddings computed at ingestion). */
+  semanticSearch: boolean;
+  chunkMaxTokens: number;
+  chunkOverlapTokens: number;
+  /** Rewrite follow-up questions into standalone search queries using the conversation history. */
+  queryRewriting: boolean;
+  /** Maximum estimated tokens of earlier turns sent with each question; older turns are summarized (0 disables history). */
+  historyTokenBudget: number;
+  /** Base URL of the OpenAI-compatible server, including the API version (e.g. `http://localhost:11434/v1`). */
+  openAiBaseUrl: string;
+  /** Embedding model requested from the OpenAI-compatible server. */
+  openAiEmbeddingModel: string;
+  /** How finished answers are checked against their sources: term overlap, a model acting as judge, or not at all. */
+  groundingCheck: 'off' | 'lexical' | 'llm';
+  /** Suggest starter questions for the knowledge base and follow-up questions after each answer. */
+  suggestQuestions: boolean;
+  /** Spending limits of the current conversation, of each day and of this browser overall. */
+  budgets: Record<BudgetScope, BudgetLimits>;
+  /** Percentage of a limit from which the app warns and switches to cheaper requests. */
+  budgetWarningPercent: number;
+}
+
+export type BudgetScope = 'conversation' | 'daily' | 'total';
+
+/** Limits of a budget; requests are blocked once either is reached. 0 disables a limit. */
+export interface BudgetLimits {
+  maxTokens: number;
+  /** In euro. */
+  maxCost: number;
+}
+
+export interface KnowledgeDocument {
+    id: string;
+    title: string;
+    /** URL or file name the document was loaded from. */
+    source: string;
+    /** Epoch milliseconds of the last (re)load. */
+    loadedAt: number;
+    /** Size of the extracted text, in characters. */
+    size: number;
+    tokenEstimate: number;
+    enabled: boolean;
+    text: string;
+    /** Layout-aware segments, when the extractor could provide them. */
+    segments?: TextSegment[];
+    /** Model that produced the embeddings of this document's chunks, if they have been computed. */
+    embeddingModel?: string;
+    /** Options the stored chunks were produced with; chunks are rebuilt when the settings differ. */
+    chunking?: ChunkingOptions;
+    /** MIME type of the original file, when its bytes are stored for the document viewer. */
+    originalFileType?: string;
+}
+
+/** A place in a document to show in the viewer. */
+export interface SourceLocation {
+    documentId: string;
+    /** Chunk to highlight; its text is looked up, when still available, if no passage is given. */
+    chunkId?: string;
+    pageStart?: number;
+    pageEnd?: number;
+    /** Text to highlight; preferred to the chunk, whose id may name another passage after the document is re-chunked. */
+    passage?: string;
+}
+
+/** Lexical statistics of a chunk, computed once at ingestion for BM25 ranking. */
+export interface ChunkTermStats {
+    /** Occurrences of each stemmed, non-stopword term. */
+    termFrequencies: Record<string, number>;
+    /** Total number of indexed terms. */
+    length: number;
+}
+
+export interface ChunkingOptions {
+    /** Maximum chunk size, in estimated tokens. */
+    maxTokens: number;
+    /** Estimated tokens repeated at the start of the next chunk of the same section. */
+    overlapTokens: number;
+}
+
+export interface KnowledgeChunk {
+    /** Stable within a chunking of the document: `<documentId>:<position>`. */
+    id: string;
+    documentId: string;
+    text: string;
+    /** Titles of the enclosing sections, outermost first. */
+    headingPath: string[];
+    pageStart?: number;
+    pageEnd?: number;
+    /** Character range of the chunk in the document text. */
+    startOffset: number;
+    endOffset: number;
+    tokenCount: number;
+    termStats?: ChunkTermStats;
+    /** Embedding vector for semantic retrieval, from the document's `embeddingModel`. */
+    embedding?: number[];
+}
+
+export type FileUploadStatus = 'pending' | 'parsing' | 'done' | 'error';
+
+export interface FileUploadReport {
+    id: string;
+    fileName: string;
+    status: FileUploadStatus;
+    /** Fraction of the extraction completed, from 0 to 1. */
+    progress: number;
+    error?: string;
+}
+
+/**
+ * A paragraph or heading extracted from a document, with its position in the source.
+ */
+export interface TextSegment {
+    text: string;
+    /** 1-based page number; only set for paginated sources (PDF). */
+    page?: number;
+    /** Heading level (1 = top level); undefined for body paragraphs. */
+    headingLevel?: number;
+}
+
+export interface ExtractedContent {
+    text: string;
+    segments?: TextSegment[];
+}
+
+/** A chunk an entry of the knowledge base digest was drafted from. */
+export interface ChunkReference {
+    chunkId: string;
+    documentId: string;
+    documentTitle: string;
+    pageStart?: number;
+    pageEnd?: number;
+}
+
+/** A question and answer drafted from the knowledge base, to be reviewed by an admin. */
+export interface FaqEntry {
+    id: string;
+    question: string;
+    answer: string;
+    references: ChunkReference[];
+    /** Approved entries matching a question are sent as context ahead of the retrieved chunks. */
+    approved: boolean;
+}
+
+export interface DocumentDigest {
+    documentId: string;
+    title: string;
+    summary: string;
+    /** Table of contents, from the section headings or, without headings, from the topics found. */
+    outline: { level: number; title: string }[];
+}
+
+/**
+ * Overview of the knowledge base, built on demand by summarizing its chunks and then combining the results.
+ */
+export interface KnowledgeDigest {
+    /** The knowledge base the digest was built from, as returned by `knowledgeBaseFingerprint`. */
+    fingerprint: string;
+    createdAt: number;
+    documents: DocumentDigest[];
+    /** People, organizations, products, places and terms that recur in the documents, most frequent first. */
+    entities: string[];
+    faq: FaqEntry[];
+}
+
+/** A model-written summary of the oldest messages of a conversation, sent in place of them. */
+export interface ConversationSummary {
+    text: string;
+    /** Number of leading messages the summary covers. */
+    messageCount: number;
+}
+
+/** The settings and knowledge base a conversation was held with, from a given turn on. */
+export interface ConversationSnapshot {
+    id: string;
+    createdAt: number;
+    /** The settings the answers were given with, after any budget downgrade. */
+    settings: Settings;
+    knowledgeBase: {
+        /** As returned by `knowledgeBaseFingerprint`. */
+        fingerprint: string;
+        /** The enabled documents. */
+        documents: Pick<KnowledgeDocument, 'id' | 'title' | 'source' | 'loadedAt'>[];
+    };
+}
+
+export interface Conversation {
+    id: string;
+    /** Set by the user or generated after the first answer; until then the first question stands in for it. */
+    title?: string;
+    pinned?: boolean;
+    messages: Message[];
+    summary?: ConversationSummary;
+    /** Every setup the conversation was held with, oldest first; answers refer to them by id. */
+    snapshots?: ConversationSnapshot[];
+    createdAt: number;
+    updatedAt: number;
 }
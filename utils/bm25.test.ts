@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { KnowledgeChunk } from '../types';
+import { buildBm25Index, searchBm25 } from './bm25';
+
+const chunk = (text: string, position: number): KnowledgeChunk => ({
+    id: `doc:${position}`,
+    documentId: 'doc',
+    text,
+    headingPath: [],
+    startOffset: 0,
+    endOffset: text.length,
+    tokenCount: 0,
+});
+
+const CHUNKS = [
+    'La garanzia copre i difetti di fabbricazione per due anni dalla consegna.',
+    'Il reso è gratuito entro trenta giorni: la merce va rispedita nella confezione originale.',
+    'Le spedizioni in Italia arrivano in tre giorni lavorativi; la spedizione è gratuita oltre 50 euro.',
+    'Per assistenza sulla garanzia scrivere al servizio clienti indicando il numero d\'ordine.',
+].map(chunk);
+
+describe('searchBm25', () => {
+    const index = buildBm25Index(CHUNKS);
+
+    it('ranks the chunks containing the query terms first', () => {
+        const results = searchBm25(index, 'Come funziona il reso?');
+        expect(results[0].index).toBe(1);
+        expect(results.every(result => result.score > 0)).toBe(true);
+    });
+
+    it('matches inflected forms through stemming', () => {
+        const results = searchBm25(index, 'spedizione');
+        expect(results.map(result => result.index)).toEqual([2]);
+    });
+
+    it('weights rare terms above common ones', () => {
+        // "garanzia" appears in two chunks, "fabbricazione" only in the first.
+        const results = searchBm25(index, 'garanzia fabbricazione');
+        expect(results.map(result => result.index)).toEqual([0, 3]);
+    });
+
+    it('returns nothing for stopwords only or an empty index', () => {
+        expect(searchBm25(index, 'il la di')).toEqual([]);
+        expect(searchBm25(buildBm25Index([]), 'reso')).toEqual([]);
+    });
+});
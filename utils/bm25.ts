@@ -0,0 +1,98 @@
+import type { KnowledgeChunk, ChunkTermStats } from '../types';
+import { analyzeText } from './textAnalysis';
+
+// Standard Okapi BM25 parameters: k1 controls term-frequency saturation, b the document-length normalization.
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Corpus-level BM25 statistics over a set of chunks.
+ * Per-chunk term frequencies are computed once at ingestion (see `computeTermStats`), so building
+ * this index only aggregates them and is cheap enough to redo whenever documents are enabled or disabled.
+ */
+export interface Bm25Index {
+    chunkCount: number;
+    averageLength: number;
+    /** Number of chunks containing each term. */
+    documentFrequencies: Map<string, number>;
+    termStats: ChunkTermStats[];
+}
+
+export interface ScoredChunkIndex {
+    /** Position of the chunk in the array the index was built from. */
+    index: number;
+    score: number;
+}
+
+/**
+ * Analyzes a chunk's text into term frequencies for lexical retrieval.
+ */
+export const computeTermStats = (text: string): ChunkTermStats => {
+    const terms = analyzeText(text);
+    const termFrequencies: Record<string, number> = {};
+    for (const term of terms) {
+        termFrequencies[term] = (termFrequencies[term] ?? 0) + 1;
+    }
+    return { termFrequencies, length: terms.length };
+};
+
+/**
+ * Adds term statistics to chunks that don't have them yet.
+ */
+export const withTermStats = (chunks: KnowledgeChunk[]): KnowledgeChunk[] => {
+    return chunks.map(chunk => chunk.termStats ? chunk : { ...chunk, termStats: computeTermStats(chunk.text) });
+};
+
+/**
+ * Builds the BM25 corpus statistics for a set of chunks.
+ */
+export const buildBm25Index = (chunks: KnowledgeChunk[]): Bm25Index => {
+    const termStats = chunks.map(chunk => chunk.termStats ?? computeTermStats(chunk.text));
+    const documentFrequencies = new Map<string, number>();
+    let totalLength = 0;
+
+    for (const stats of termStats) {
+        totalLength += stats.length;
+        for (const term of Object.keys(stats.termFrequencies)) {
+            documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+        }
+    }
+
+    return {
+        chunkCount: chunks.length,
+        averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+        documentFrequencies,
+        termStats,
+    };
+};
+
+/**
+ * Scores every chunk of the index against a query with Okapi BM25.
+ * @param index The BM25 index.
+ * @param query The search query.
+ * @returns The chunks with a positive score, best first.
+ */
+export const searchBm25 = (index: Bm25Index, query: string): ScoredChunkIndex[] => {
+    const queryTerms = Array.from(new Set(analyzeText(query)));
+    if (queryTerms.length === 0 || index.chunkCount === 0) return [];
+
+    const idf = new Map(queryTerms.map(term => {
+        const df = index.documentFrequencies.get(term) ?? 0;
+        // BM25+ style IDF, always positive even for terms present in most chunks.
+        return [term, Math.log(1 + (index.chunkCount - df + 0.5) / (df + 0.5))];
+    }));
+
+    const results: ScoredChunkIndex[] = [];
+    index.termStats.forEach((stats, i) => {
+        let score = 0;
+        for (const term of queryTerms) {
+            const tf = stats.termFrequencies[term];
+            if (!tf) continue;
+            const lengthNorm = 1 - B + B * (stats.length / (index.averageLength || 1));
+            score += idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * lengthNorm);
+        }
+        if (score > 0) results.push({ index: i, score });
+    });
+
+    return results.sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,149 @@
+import type { BudgetLimits, BudgetScope, Message, MessageUsage, Settings } from '../types';
+import type { TokenUsage } from '../services/llmProvider';
+import { PROVIDERS } from '../services/llmProvider';
+import { collectUsages, totalTokens, usageCost } from './usage';
+
+/** Tokens and euro spent; models without a known price add no cost. */
+export interface SpentAmount {
+    tokens: number;
+    cost: number;
+}
+
+/** Spending of this browser, kept across conversations and reloads. */
+export interface UsageLedger {
+    /** Spending of each local day, keyed by its date (YYYY-MM-DD). */
+    days: Record<string, SpentAmount>;
+    total: SpentAmount;
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'blocked';
+
+export interface BudgetCheck {
+    scope: BudgetScope;
+    level: BudgetLevel;
+    /** Fraction of the closest limit already spent. */
+    ratio: number;
+}
+
+export interface BudgetStatus {
+    level: BudgetLevel;
+    /** The budgets past the warning threshold, closest to their limit first. */
+    checks: BudgetCheck[];
+}
+
+export const EMPTY_LEDGER: UsageLedger = { days: {}, total: { tokens: 0, cost: 0 } };
+
+// Days kept in the ledger; older ones only count towards the total.
+const LEDGER_DAYS = 31;
+
+export const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+    conversation: 'della conversazione',
+    daily: 'giornaliero',
+    total: 'complessivo',
+};
+
+/**
+ * Key of the local day of a date in the ledger.
+ */
+export const dayKey = (date: Date = new Date()): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const spentFromUsage = (usage: MessageUsage): SpentAmount => ({ tokens: totalTokens(usage), cost: usageCost(usage) ?? 0 });
+
+/**
+ * Adds up the spending of a conversation, replaced versions included.
+ */
+export const sumSpending = (messages: Message[]): SpentAmount => collectUsages(messages)
+    .map(spentFromUsage)
+    .reduce((sum, spent) => ({ tokens: sum.tokens + spent.tokens, cost: sum.cost + spent.cost }), { tokens: 0, cost: 0 });
+
+/**
+ * Converts the usage reported for a request other than an answer, such as a digest or suggestions request.
+ */
+export const spentFromTokenUsage = (usage: TokenUsage, model: string): SpentAmount => spentFromUsage({
+    model,
+    promptTokens: 0,
+    contextTokens: 0,
+    outputTokens: 0,
+    thinkingTokens: 0,
+    auxiliaryPromptTokens: usage.promptTokens,
+    auxiliaryOutputTokens: usage.completionTokens + (usage.thinkingTokens ?? 0),
+    estimated: false,
+});
+
+/**
+ * Adds an amount to the ledger, on the day of `date`, dropping the days too old to matter.
+ */
+export const addToLedger = (ledger: UsageLedger, amount: SpentAmount, date: Date = new Date()): UsageLedger => {
+    const key = dayKey(date);
+    const today = ledger.days[key] ?? { tokens: 0, cost: 0 };
+    const oldest = dayKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - LEDGER_DAYS));
+    const days = Object.fromEntries(Object.entries(ledger.days).filter(([day]) => day > oldest));
+    days[key] = { tokens: today.tokens + amount.tokens, cost: today.cost + amount.cost };
+    return {
+        days,
+        total: { tokens: ledger.total.tokens + amount.tokens, cost: ledger.total.cost + amount.cost },
+    };
+};
+
+/**
+ * Fraction of the closest of the limits already spent.
+ */
+export const spentRatio = (spent: SpentAmount, limits: BudgetLimits): number => Math.max(
+    limits.maxTokens > 0 ? spent.tokens / limits.maxTokens : 0,
+    limits.maxCost > 0 ? spent.cost / limits.maxCost : 0,
+);
+
+/**
+ * Gathers the spending each budget applies to.
+ * @param conversation The spending of the current conversation.
+ * @param ledger The spending of this browser.
+ */
+export const spendingByScope = (conversation: SpentAmount, ledger: UsageLedger, date: Date = new Date()): Record<BudgetScope, SpentAmount> => ({
+    conversation,
+    daily: ledger.days[dayKey(date)] ?? { tokens: 0, cost: 0 },
+    total: ledger.total,
+});
+
+/**
+ * Compares the spending of each scope with its limits: from the warning percentage on, cheaper requests
+ * should be sent; once a limit is reached, no request may be sent.
+ */
+export const checkBudgets = (spent: Record<BudgetScope, SpentAmount>, settings: Pick<Settings, 'budgets' | 'budgetWarningPercent'>): BudgetStatus => {
+    const checks = (Object.keys(spent) as BudgetScope[])
+        .map((scope): BudgetCheck => {
+            const ratio = spentRatio(spent[scope], settings.budgets[scope]);
+            const level = ratio >= 1 ? 'blocked' : ratio * 100 >= settings.budgetWarningPercent ? 'warning' : 'ok';
+            return { scope, level, ratio };
+        })
+        .filter(check => check.level !== 'ok')
+        .sort((a, b) => b.ratio - a.ratio);
+    return { level: checks[0]?.level ?? 'ok', checks };
+};
+
+/**
+ * Describes the budget closest to its limit, for the user.
+ */
+export const describeBudgetStatus = (status: BudgetStatus): string | null => {
+    const [check] = status.checks;
+    if (!check) return null;
+    const label = BUDGET_SCOPE_LABELS[check.scope];
+    if (check.level === 'blocked') {
+        const hint = check.scope === 'conversation' ? 'Inizia una nuova chat o aumenta il limite nelle impostazioni.' : 'Aumenta il limite nelle impostazioni per continuare.';
+        return `Il budget ${label} è esaurito. ${hint}`;
+    }
+    return `Budget ${label} consumato al ${Math.round(check.ratio * 100)} per cento: le risposte usano un modello più economico e meno frammenti.`;
+};
+
+/**
+ * Settings for a turn sent while a budget is running out: a cheaper model, half the chunks and history,
+ * and no optional requests.
+ */
+export const economySettings = (settings: Settings): Settings => ({
+    ...settings,
+    model: PROVIDERS[settings.provider].economyModel ?? settings.model,
+    retrievalTopK: Math.max(1, Math.floor(settings.retrievalTopK / 2)),
+    historyTokenBudget: Math.floor(settings.historyTokenBudget / 2),
+    groundingCheck: settings.groundingCheck === 'llm' ? 'lexical' : settings.groundingCheck,
+    suggestQuestions: false,
+});
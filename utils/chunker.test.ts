@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { chunkDocument } from './chunker';
+import { createKnowledgeDocument, estimateTokens } from './knowledgeBase';
+
+// A paragraph of about 40 estimated tokens.
+const paragraph = (topic: string) =>
+    `Questo paragrafo descrive ${topic} con abbastanza dettagli da occupare una parte consistente di un frammento.`;
+
+const document = createKnowledgeDocument({
+    text: [
+        '# Spedizioni',
+        paragraph('i tempi di consegna'),
+        paragraph('i costi di spedizione'),
+        paragraph('le spedizioni all\'estero'),
+        '## Tracciamento',
+        paragraph('il codice di tracciamento'),
+        '# Resi',
+        paragraph('la procedura di reso'),
+    ].join('\n\n'),
+}, 'Condizioni di vendita', 'condizioni.md');
+
+describe('chunkDocument', () => {
+    // Two paragraphs fit in a chunk, and one fits in the overlap.
+    const options = { maxTokens: 80, overlapTokens: 35 };
+    const chunks = chunkDocument(document, options);
+
+    it('never lets a chunk span two sections', () => {
+        expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+            ['Spedizioni'],
+            ['Spedizioni'],
+            ['Spedizioni', 'Tracciamento'],
+            ['Resi'],
+        ]);
+    });
+
+    it('keeps chunks within the token limit', () => {
+        for (const chunk of chunks) {
+            expect(chunk.tokenCount).toBeLessThanOrEqual(options.maxTokens);
+            expect(chunk.tokenCount).toBe(estimateTokens(chunk.text));
+        }
+    });
+
+    it('repeats the end of a chunk at the start of the next one of the same section', () => {
+        const shared = paragraph('i costi di spedizione');
+        expect(chunks[0].text.endsWith(shared)).toBe(true);
+        expect(chunks[1].text).toBe(`${shared}\n\n${paragraph('le spedizioni all\'estero')}`);
+        // The overlap stops at the section boundary.
+        expect(chunks[2].text.startsWith('## Tracciamento')).toBe(true);
+    });
+
+    it('records where each chunk lies in the document text', () => {
+        chunks.forEach((chunk, i) => {
+            expect(chunk.id).toBe(`${document.id}:${i}`);
+            expect(document.text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+        });
+    });
+
+    it('splits a paragraph longer than a chunk on sentence boundaries', () => {
+        const sentences = Array.from({ length: 12 }, (_, i) => `La frase numero ${i + 1} parla di un argomento diverso dalle altre.`);
+        const long = createKnowledgeDocument({ text: sentences.join(' ') }, 'Lungo', 'lungo.txt');
+
+        const longChunks = chunkDocument(long, { maxTokens: 60, overlapTokens: 0 });
+
+        expect(longChunks.length).toBeGreaterThan(1);
+        for (const chunk of longChunks) {
+            expect(chunk.tokenCount).toBeLessThanOrEqual(60);
+            expect(chunk.text).toMatch(/^La frase numero \d+ .*\.$/);
+        }
+        expect(longChunks.map(chunk => chunk.text).join(' ')).toBe(long.text);
+    });
+});
@@ -0,0 +1,232 @@
+import type { KnowledgeDocument, KnowledgeChunk, ChunkingOptions } from '../types';
+import { CHARS_PER_TOKEN, estimateTokens } from './knowledgeBase';
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+    maxTokens: 500,
+    overlapTokens: 50,
+};
+
+/**
+ * A span of the document text that is never split across chunks (a paragraph, or a sentence of an oversized paragraph).
+ */
+interface TextUnit {
+    start: number;
+    end: number;
+    page?: number;
+    headingPath: string[];
+    /** True for the first unit of a section, which always starts a new chunk. */
+    startsSection: boolean;
+    isHeading: boolean;
+}
+
+/** A paragraph or heading of the document, with its position in `document.text`. */
+interface TextBlock {
+    start: number;
+    end: number;
+    page?: number;
+    headingLevel?: number;
+    headingText?: string;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+
+/**
+ * Locates the paragraphs and headings of a document in its text.
+ * PDF documents use their layout segments (which carry page numbers); other documents are split on blank lines,
+ * with Markdown-style "#" lines treated as headings.
+ */
+const findBlocks = (document: KnowledgeDocument): TextBlock[] => {
+    const { text } = document;
+    const blocks: TextBlock[] = [];
+
+    if (document.segments) {
+        let cursor = 0;
+        for (const segment of document.segments) {
+            const rendered = segment.headingLevel ? `${'#'.repeat(segment.headingLevel)} ${segment.text}` : segment.text;
+            const start = text.indexOf(rendered, cursor);
+            if (start < 0) continue;
+            cursor = start + rendered.length;
+            blocks.push({ start, end: cursor, page: segment.page, headingLevel: segment.headingLevel, headingText: segment.headingLevel ? segment.text : undefined });
+        }
+        return blocks;
+    }
+
+    // Plain text: paragraphs are separated by blank lines, and every "#" line is a heading block of its own.
+    let paragraphStart = -1;
+    let paragraphEnd = -1;
+    const flushParagraph = () => {
+        if (paragraphStart >= 0) blocks.push({ start: paragraphStart, end: paragraphEnd });
+        paragraphStart = -1;
+    };
+
+    let lineStart = 0;
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        const start = lineStart + (line.length - line.trimStart().length);
+        const heading = trimmed.match(MARKDOWN_HEADING);
+        if (!trimmed) {
+            flushParagraph();
+        } else if (heading) {
+            flushParagraph();
+            blocks.push({ start, end: start + trimmed.length, headingLevel: heading[1].length, headingText: heading[2].trim() });
+        } else {
+            if (paragraphStart < 0) paragraphStart = start;
+            paragraphEnd = start + trimmed.length;
+        }
+        lineStart += line.length + 1;
+    }
+    flushParagraph();
+    return blocks;
+};
+
+/**
+ * Splits a span of text into sentence spans, falling back to fixed-size word windows for sentences that are still too long.
+ */
+const splitSpan = (text: string, start: number, end: number, maxTokens: number): { start: number; end: number }[] => {
+    const spans: { start: number; end: number }[] = [];
+    const sentence = /[^.?!;\n]+(?:[.?!;]+|\n|$)/g;
+    const slice = text.slice(start, end);
+    let match: RegExpExecArray | null;
+
+    while ((match = sentence.exec(slice)) !== null) {
+        if (match[0].length === 0) {
+            sentence.lastIndex++;
+            continue;
+        }
+        const raw = match[0];
+        const leading = raw.length - raw.trimStart().length;
+        const trimmed = raw.trim();
+        if (!trimmed) continue;
+        const sentenceStart = start + match.index + leading;
+        const sentenceEnd = sentenceStart + trimmed.length;
+
+        if (estimateTokens(trimmed) <= maxTokens) {
+            spans.push({ start: sentenceStart, end: sentenceEnd });
+            continue;
+        }
+
+        // A single "sentence" longer than a chunk (e.g. a table row or a list without punctuation): cut on word boundaries.
+        const maxChars = maxTokens * CHARS_PER_TOKEN;
+        let cursor = sentenceStart;
+        while (cursor < sentenceEnd) {
+            let cut = Math.min(sentenceEnd, cursor + maxChars);
+            if (cut < sentenceEnd) {
+                const lastSpace = text.lastIndexOf(' ', cut);
+                if (lastSpace > cursor) cut = lastSpace;
+            }
+            spans.push({ start: cursor, end: cut });
+            cursor = cut;
+            while (cursor < sentenceEnd && /\s/.test(text[cursor])) cursor++;
+        }
+    }
+    return spans;
+};
+
+/**
+ * Turns the blocks of a document into indivisible units, tracking the heading path of each.
+ */
+const buildUnits = (document: KnowledgeDocument, maxTokens: number): TextUnit[] => {
+    const units: TextUnit[] = [];
+    const headingStack: { level: number; text: string }[] = [];
+    let startsSection = true;
+
+    for (const block of findBlocks(document)) {
+        if (block.headingLevel) {
+            while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.headingLevel) {
+                headingStack.pop();
+            }
+            headingStack.push({ level: block.headingLevel, text: block.headingText ?? '' });
+            startsSection = true;
+        }
+
+        const headingPath = headingStack.map(heading => heading.text);
+        const blockText = document.text.slice(block.start, block.end);
+        const spans = estimateTokens(blockText) > maxTokens
+            ? splitSpan(document.text, block.start, block.end, maxTokens)
+            : [{ start: block.start, end: block.end }];
+
+        for (const span of spans) {
+            units.push({
+                ...span,
+                page: block.page,
+                headingPath,
+                startsSection,
+                isHeading: block.headingLevel !== undefined,
+            });
+            startsSection = false;
+        }
+    }
+    return units;
+};
+
+/**
+ * Splits a document into chunks sized by estimated tokens.
+ * A chunk never spans two sections: every heading starts a new chunk. Within a section, consecutive chunks share
+ * up to `overlapTokens` of trailing paragraphs or sentences, so text straddling a boundary is retrievable from both sides.
+ * @param document The knowledge base document.
+ * @param options Maximum chunk size and overlap, in estimated tokens.
+ * @returns The chunks of the document, in reading order.
+ */
+export const chunkDocument = (document: KnowledgeDocument, options: ChunkingOptions = DEFAULT_CHUNKING): KnowledgeChunk[] => {
+    const maxTokens = Math.max(50, options.maxTokens);
+    const overlapTokens = Math.min(Math.max(0, options.overlapTokens), Math.floor(maxTokens / 2));
+    const units = buildUnits(document, maxTokens);
+    const chunks: KnowledgeChunk[] = [];
+
+    const emit = (chunkUnits: TextUnit[]) => {
+        const first = chunkUnits[0];
+        const last = chunkUnits[chunkUnits.length - 1];
+        const pages = chunkUnits.map(unit => unit.page).filter((page): page is number => page !== undefined);
+        const text = document.text.slice(first.start, last.end);
+        chunks.push({
+            id: `${document.id}:${chunks.length}`,
+            documentId: document.id,
+            text,
+            headingPath: last.headingPath,
+            pageStart: pages.length > 0 ? Math.min(...pages) : undefined,
+            pageEnd: pages.length > 0 ? Math.max(...pages) : undefined,
+            startOffset: first.start,
+            endOffset: last.end,
+            tokenCount: estimateTokens(text),
+        });
+    };
+
+    // Units are measured together with the whitespace between them, as the chunk text will be.
+    const spanTokens = (first: TextUnit, last: TextUnit) => estimateTokens(document.text.slice(first.start, last.end));
+
+    let current: TextUnit[] = [];
+    // Whether `current` holds anything beyond the overlap carried over from the previous chunk.
+    let hasNewContent = false;
+
+    for (const unit of units) {
+        const overflows = current.length > 0 && spanTokens(current[0], unit) > maxTokens;
+        // Consecutive headings (e.g. a chapter title followed by a section title) stay together with the text that follows.
+        const startsNewSection = unit.startsSection && current.some(u => !u.isHeading);
+        if (current.length > 0 && (startsNewSection || overflows)) {
+            if (hasNewContent) emit(current);
+
+            // Carry the tail of the previous chunk over, unless a new section starts.
+            const carried: TextUnit[] = [];
+            if (!startsNewSection) {
+                for (let i = current.length - 1; i >= 0; i--) {
+                    if (spanTokens(current[i], current[current.length - 1]) > overlapTokens || spanTokens(current[i], unit) > maxTokens) break;
+                    carried.unshift(current[i]);
+                }
+            }
+            current = carried;
+            hasNewContent = false;
+        }
+        current.push(unit);
+        hasNewContent = true;
+    }
+    if (current.length > 0 && hasNewContent) emit(current);
+
+    return chunks;
+};
+
+/**
+ * Tells whether a document was chunked with the given options, so its stored chunks can be reused.
+ */
+export const isChunkedWith = (document: KnowledgeDocument, options: ChunkingOptions): boolean => {
+    return document.chunking?.maxTokens === options.maxTokens && document.chunking?.overlapTokens === options.overlapTokens;
+};
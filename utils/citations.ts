@@ -0,0 +1,46 @@
+import type { MessageSource } from '../types';
+
+// A citation marker: "[2]" or a group such as "[1, 3]".
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export type CitationPart =
+    | { type: 'text'; text: string }
+    | { type: 'citation'; numbers: number[] };
+
+/**
+ * Splits an answer into plain text and citation markers.
+ */
+export const splitCitations = (text: string): CitationPart[] => {
+    const parts: CitationPart[] = [];
+    let cursor = 0;
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+        if (match.index > cursor) parts.push({ type: 'text', text: text.slice(cursor, match.index) });
+        parts.push({ type: 'citation', numbers: match[1].split(',').map(n => parseInt(n.trim(), 10)) });
+        cursor = match.index + match[0].length;
+    }
+    if (cursor < text.length) parts.push({ type: 'text', text: text.slice(cursor) });
+    return parts;
+};
+
+/**
+ * Lists the numbers cited in an answer, in order of first appearance.
+ */
+export const getCitedNumbers = (text: string): number[] => {
+    const numbers = splitCitations(text).flatMap(part => part.type === 'citation' ? part.numbers : []);
+    return Array.from(new Set(numbers));
+};
+
+/**
+ * Finds the citations that don't match any chunk sent with the question, i.e. invented by the model.
+ */
+export const findUnknownCitations = (text: string, sources: MessageSource[]): number[] => {
+    const known = new Set(sources.map(source => source.number));
+    return getCitedNumbers(text).filter(number => !known.has(number));
+};
+
+/**
+ * Removes citation markers, e.g. from earlier answers sent back as history, whose numbers refer to another context.
+ */
+export const stripCitations = (text: string): string => {
+    return text.replace(CITATION_PATTERN, '').replace(/ +([.,;:!?])/g, '$1');
+};
@@ -0,0 +1,344 @@
+import type { Conversation, ConversationSnapshot, ConversationSummary, Message, MessageBranches, MessageSource, MessageUsage } from '../types';
+import { parseMarkdown, sanitizeUrl } from './markdown';
+import type { BlockNode, InlineNode } from './markdown';
+import { formatPageRange } from './retrieval';
+import { displayConversationTitle } from './conversations';
+import { formatEur, totalTokens, usageCost } from './usage';
+
+/** Identifies the JSON exports of this app; bump the version when the layout changes incompatibly. */
+export const EXPORT_FORMAT = 'chatchok-conversation';
+export const EXPORT_VERSION = 1;
+
+/** A conversation exported as JSON, with everything needed to restore it. */
+export interface ConversationExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: number;
+    conversation: Conversation;
+}
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+const BRAND_NAME = 'ChatChok';
+const BRAND_TAGLINE = 'Agente AI per esperienze cliente';
+const BRAND_FOOTER = '©2025 THE ROUND · www.theround.it';
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString('it-IT', { dateStyle: 'long', timeStyle: 'short' });
+
+const roleLabel = (message: Message): string => message.role === 'user' ? 'Utente' : 'Assistente';
+
+const formatSource = (source: MessageSource): string => {
+    const pages = formatPageRange(source);
+    const section = source.headingPath.length > 0 ? ` – ${source.headingPath.join(' › ')}` : '';
+    return `${source.documentTitle}${pages ? `, ${pages}` : ''}${section}`;
+};
+
+const formatUsage = (message: Message): string | null => message.usage
+    ? `${message.usage.model} · ${message.usage.estimated ? '~' : ''}${totalTokens(message.usage).toLocaleString('it-IT')} token · ${formatEur(usageCost(message.usage))}`
+    : null;
+
+/**
+ * Names an export file after the conversation title and its date.
+ */
+export const exportFileName = (conversation: Conversation, extension: string): string => {
+    const slug = displayConversationTitle(conversation)
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 50);
+    return `chatchok-${slug || 'conversazione'}-${new Date(conversation.updatedAt).toISOString().slice(0, 10)}.${extension}`;
+};
+
+// --- JSON ---
+
+/**
+ * Serializes a conversation with every version, source, usage and snapshot, so that importing it restores it exactly.
+ */
+export const conversationToJson = (conversation: Conversation): string => {
+    const data: ConversationExport = { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: Date.now(), conversation };
+    return JSON.stringify(data, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T): boolean => value === undefined || check(value);
+
+const isMessage = (value: unknown): value is Message =>
+    isObject(value) && (value.role === 'user' || value.role === 'model') && typeof value.text === 'string';
+
+const isSource = (value: unknown): value is MessageSource =>
+    isObject(value) && isNumber(value.number) && isString(value.chunkId) && isString(value.documentId)
+    && isString(value.documentTitle) && isStringArray(value.headingPath) && isString(value.text)
+    && isOptional(value.pageStart, isNumber) && isOptional(value.pageEnd, isNumber);
+
+const USAGE_COUNTS = ['promptTokens', 'contextTokens', 'outputTokens', 'thinkingTokens', 'auxiliaryPromptTokens', 'auxiliaryOutputTokens'] as const;
+
+const isUsage = (value: unknown): value is MessageUsage =>
+    isObject(value) && isString(value.model) && typeof value.estimated === 'boolean' && USAGE_COUNTS.every(key => isNumber(value[key]));
+
+const isAssessment = (value: unknown): value is Message['assessment'] =>
+    isObject(value) && ['answered', 'not_found', 'off_topic'].includes(value.status as string)
+    && isStringArray(value.citedChunkIds) && isOptional(value.confidence, isNumber);
+
+const isGrounding = (value: unknown): value is Message['grounding'] =>
+    isObject(value) && (value.method === 'lexical' || value.method === 'llm') && isNumber(value.score)
+    && Array.isArray(value.claims) && value.claims.every(claim =>
+        isObject(claim) && isString(claim.text) && typeof claim.supported === 'boolean' && isNumber(claim.overlap));
+
+const isRetrieval = (value: unknown): value is Message['retrieval'] =>
+    isObject(value) && isString(value.question) && isString(value.query) && isNumber(value.topK) && isNumber(value.scoreThreshold)
+    && isStringArray(value.sentChunkIds) && isNumber(value.historyMessageCount)
+    && isObject(value.promptTokens) && ['systemInstruction', 'context', 'summary', 'history', 'question', 'total'].every(key => isNumber((value.promptTokens as Record<string, unknown>)[key]))
+    && Array.isArray(value.candidates) && value.candidates.every(candidate =>
+        isObject(candidate) && isString(candidate.chunkId) && isString(candidate.documentId) && isString(candidate.documentTitle)
+        && isStringArray(candidate.headingPath) && isString(candidate.preview) && isNumber(candidate.tokenCount)
+        && isNumber(candidate.rank) && isNumber(candidate.score) && typeof candidate.sent === 'boolean');
+
+const isSummary = (value: unknown): value is ConversationSummary =>
+    isObject(value) && isString(value.text) && isNumber(value.messageCount);
+
+const isSnapshot = (value: unknown): value is ConversationSnapshot => {
+    if (!isObject(value) || !isString(value.id) || !isNumber(value.createdAt)) return false;
+    const { settings, knowledgeBase } = value;
+    return isObject(settings) && isString(settings.model) && isString(settings.provider) && typeof settings.semanticSearch === 'boolean'
+        && ['temperature', 'retrievalTopK', 'chunkMaxTokens', 'historyTokenBudget'].every(key => isNumber(settings[key]))
+        && isObject(knowledgeBase) && isString(knowledgeBase.fingerprint) && Array.isArray(knowledgeBase.documents)
+        && knowledgeBase.documents.every(doc => isObject(doc) && isString(doc.id) && isString(doc.title) && isNumber(doc.loadedAt));
+};
+
+/**
+ * Keeps the text of a message and those of its optional fields that are well formed; the others are dropped,
+ * so that a damaged detail does not prevent restoring the conversation.
+ * @returns `null` if the message itself is invalid.
+ */
+const sanitizeMessage = (value: unknown): Message | null => {
+    if (!isMessage(value)) return null;
+    const message: Message = { role: value.role, text: value.text };
+    if (isNumber(value.createdAt)) message.createdAt = value.createdAt;
+    if (isString(value.searchQuery)) message.searchQuery = value.searchQuery;
+    if (isRetrieval(value.retrieval)) message.retrieval = value.retrieval;
+    if (Array.isArray(value.sources) && value.sources.every(isSource)) message.sources = value.sources;
+    if (isAssessment(value.assessment)) message.assessment = value.assessment;
+    if (isGrounding(value.grounding)) message.grounding = value.grounding;
+    if (value.stopped === true) message.stopped = true;
+    if (value.failed === true) message.failed = true;
+    if (isStringArray(value.suggestions)) message.suggestions = value.suggestions;
+    if (isUsage(value.usage)) message.usage = value.usage;
+    if (isString(value.snapshotId)) message.snapshotId = value.snapshotId;
+    const branches = sanitizeBranches(value.branches);
+    if (branches) message.branches = branches;
+    return message;
+};
+
+const sanitizeBranches = (value: unknown): MessageBranches | null => {
+    if (!isObject(value) || !Array.isArray(value.versions) || !Number.isInteger(value.active)) return null;
+    const active = value.active as number;
+    if (active < 0 || active >= value.versions.length) return null;
+    const versions: Message[][] = [];
+    for (const version of value.versions) {
+        if (!Array.isArray(version)) return null;
+        const messages = version.map(sanitizeMessage);
+        if (messages.some(message => message === null)) return null;
+        versions.push(messages as Message[]);
+    }
+    return { versions, active };
+};
+
+/**
+ * Reads a conversation exported with `conversationToJson`. Malformed optional fields are dropped.
+ * @throws Error with a message for the user if the file is not a valid export.
+ */
+export const parseConversationJson = (text: string): Conversation => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("Il file non contiene JSON valido.");
+    }
+    if (!isObject(data) || data.format !== EXPORT_FORMAT) {
+        throw new Error("Il file non è un'esportazione di una conversazione di ChatChok.");
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+        throw new Error("Il file è stato esportato da una versione più recente dell'app.");
+    }
+    const conversation = data.conversation;
+    const messages = isObject(conversation) && Array.isArray(conversation.messages) ? conversation.messages.map(sanitizeMessage) : [];
+    if (!isObject(conversation) || !isString(conversation.id) || !Array.isArray(conversation.messages) || messages.some(message => message === null)) {
+        throw new Error("La conversazione nel file è incompleta o danneggiata.");
+    }
+    const now = Date.now();
+    const imported: Conversation = {
+        id: conversation.id,
+        messages: messages as Message[],
+        createdAt: isNumber(conversation.createdAt) ? conversation.createdAt : now,
+        updatedAt: isNumber(conversation.updatedAt) ? conversation.updatedAt : now,
+    };
+    if (isString(conversation.title)) imported.title = conversation.title;
+    if (typeof conversation.pinned === 'boolean') imported.pinned = conversation.pinned;
+    // A summary can only cover messages of the conversation.
+    if (isSummary(conversation.summary) && conversation.summary.messageCount <= imported.messages.length) imported.summary = conversation.summary;
+    if (Array.isArray(conversation.snapshots)) imported.snapshots = conversation.snapshots.filter(isSnapshot);
+    return imported;
+};
+
+// --- Markdown ---
+
+/**
+ * Writes the visible version of a conversation as a Markdown transcript, with the sources of each answer.
+ */
+export const conversationToMarkdown = (conversation: Conversation): string => {
+    const lines: string[] = [
+        `# ${displayConversationTitle(conversation)}`,
+        '',
+        `Conversazione del ${formatDate(conversation.createdAt)}, esportata il ${formatDate(Date.now())}.`,
+        '',
+    ];
+
+    for (const message of conversation.messages) {
+        const time = message.createdAt ? ` · ${formatDate(message.createdAt)}` : '';
+        lines.push('---', '', `**${roleLabel(message)}**${time}`, '', message.text, '');
+        if (message.sources && message.sources.length > 0) {
+            lines.push('Fonti:', '', ...message.sources.map(source => `${source.number}. ${formatSource(source)}`), '');
+        }
+        const usage = formatUsage(message);
+        if (usage) lines.push(`_${usage}_`, '');
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const inlineToHtml = (nodes: InlineNode[]): string => nodes.map(node => {
+    switch (node.type) {
+        case 'text':
+            return escapeHtml(node.text);
+        case 'code':
+            return `<code>${escapeHtml(node.text)}</code>`;
+        case 'break':
+            return '<br>';
+        case 'citation':
+            return `<sup class="citation">[${node.numbers.join(', ')}]</sup>`;
+        case 'link': {
+            const href = sanitizeUrl(node.href);
+            return href ? `<a href="${escapeHtml(href)}">${inlineToHtml(node.children)}</a>` : inlineToHtml(node.children);
+        }
+        case 'strong':
+            return `<strong>${inlineToHtml(node.children)}</strong>`;
+        case 'em':
+            return `<em>${inlineToHtml(node.children)}</em>`;
+        case 'del':
+            return `<del>${inlineToHtml(node.children)}</del>`;
+    }
+}).join('');
+
+const blocksToHtml = (blocks: BlockNode[]): string => blocks.map(block => {
+    switch (block.type) {
+        case 'paragraph':
+            return `<p>${inlineToHtml(block.children)}</p>`;
+        case 'heading': {
+            // Answer headings sit below the message header, whatever their level in the answer.
+            const level = Math.min(block.level + 2, 6);
+            return `<h${level}>${inlineToHtml(block.children)}</h${level}>`;
+        }
+        case 'list': {
+            const tag = block.ordered ? 'ol' : 'ul';
+            const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+            return `<${tag}${start}>${block.items.map(item => `<li>${blocksToHtml(item)}</li>`).join('')}</${tag}>`;
+        }
+        case 'code':
+            return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+        case 'table': {
+            const cell = (tag: 'th' | 'td', content: InlineNode[], i: number) =>
+                `<${tag}${block.align[i] ? ` style="text-align:${block.align[i]}"` : ''}>${inlineToHtml(content)}</${tag}>`;
+            const header = `<tr>${block.header.map((content, i) => cell('th', content, i)).join('')}</tr>`;
+            const rows = block.rows.map(row => `<tr>${row.map((content, i) => cell('td', content, i)).join('')}</tr>`).join('');
+            return `<table><thead>${header}</thead><tbody>${rows}</tbody></table>`;
+        }
+        case 'blockquote':
+            return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+        case 'rule':
+            return '<hr>';
+    }
+}).join('\n');
+
+const messageToHtml = (message: Message): string => {
+    const time = message.createdAt ? `<time>${escapeHtml(formatDate(message.createdAt))}</time>` : '';
+    // Questions are shown as typed; answers are Markdown.
+    const body = message.role === 'user'
+        ? `<p>${escapeHtml(message.text).replace(/\n/g, '<br>')}</p>`
+        : blocksToHtml(parseMarkdown(message.text));
+    const sources = message.sources && message.sources.length > 0
+        ? `<ol class="sources">${message.sources.map(source => `<li value="${source.number}">${escapeHtml(formatSource(source))}</li>`).join('')}</ol>`
+        : '';
+    const usage = formatUsage(message);
+    return `<section class="message ${message.role}">
+<header><span class="role">${roleLabel(message)}</span>${time}</header>
+<div class="body">${body}</div>
+${sources}${usage ? `<p class="usage">${escapeHtml(usage)}</p>` : ''}
+</section>`;
+};
+
+const PRINT_STYLES = `
+@page { size: A4; margin: 18mm 16mm; }
+body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2937; max-width: 760px; margin: 0 auto; padding: 24px; line-height: 1.5; }
+.brand { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 3px solid #2563eb; padding-bottom: 8px; margin-bottom: 24px; }
+.brand .name { font-size: 22px; font-weight: 700; color: #2563eb; }
+.brand .tagline { font-size: 12px; color: #6b7280; }
+h1 { font-size: 24px; margin: 0 0 4px; }
+.meta { font-size: 12px; color: #6b7280; margin-bottom: 24px; }
+.message { border-radius: 8px; padding: 12px 16px; margin-bottom: 16px; break-inside: avoid-page; }
+.message.user { background: #eff6ff; border: 1px solid #bfdbfe; }
+.message.model { background: #f9fafb; border: 1px solid #e5e7eb; }
+.message header { display: flex; justify-content: space-between; font-size: 12px; color: #6b7280; margin-bottom: 4px; }
+.message .role { font-weight: 600; color: #111827; }
+.body p { margin: 6px 0; }
+.citation { color: #2563eb; font-size: 0.75em; }
+.sources { font-size: 12px; color: #4b5563; border-top: 1px solid #e5e7eb; margin: 8px 0 0; padding-top: 6px; padding-left: 20px; }
+.usage { font-size: 11px; color: #9ca3af; margin: 6px 0 0; }
+table { border-collapse: collapse; margin: 8px 0; }
+th, td { border: 1px solid #d1d5db; padding: 4px 8px; }
+pre { background: #f3f4f6; padding: 8px; border-radius: 4px; white-space: pre-wrap; }
+blockquote { border-left: 3px solid #d1d5db; margin: 8px 0; padding-left: 12px; color: #4b5563; }
+footer.brand-footer { margin-top: 32px; border-top: 1px solid #e5e7eb; padding-top: 8px; font-size: 11px; color: #9ca3af; text-align: center; }
+@media print { body { padding: 0; } a { color: inherit; } }
+`;
+
+/**
+ * Writes the visible version of a conversation as a branded, self-contained HTML page laid out for printing.
+ * @param autoPrint Opens the print dialog once the page loads, to save it as PDF.
+ */
+export const conversationToHtml = (conversation: Conversation, autoPrint = false): string => {
+    const title = escapeHtml(displayConversationTitle(conversation));
+    return `<!DOCTYPE html>
+<html lang="it">
+<head>
+<meta charset="UTF-8">
+<title>${title} – ${BRAND_NAME}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<div class="brand"><span class="name">${BRAND_NAME}</span><span class="tagline">${BRAND_TAGLINE}</span></div>
+<h1>${title}</h1>
+<p class="meta">Conversazione del ${escapeHtml(formatDate(conversation.createdAt))} · esportata il ${escapeHtml(formatDate(Date.now()))}</p>
+${conversation.messages.map(messageToHtml).join('\n')}
+<footer class="brand-footer">${BRAND_FOOTER}</footer>
+${autoPrint ? '<script>window.addEventListener("load", () => window.print());</script>' : ''}
+</body>
+</html>
+`;
+};
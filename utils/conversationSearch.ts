@@ -0,0 +1,103 @@
+import type { Conversation, Message, Role } from '../types';
+
+export interface ConversationSearchFilters {
+    role: Role | 'all';
+    /** First and last day searched, as YYYY-MM-DD; empty for no bound. */
+    from: string;
+    to: string;
+    /** Only answers given without any source, or stating that the documents do not contain the answer. */
+    unsourcedOnly: boolean;
+}
+
+export interface ConversationSearchResult {
+    conversationId: string;
+    /** Position of the message in the visible version of the conversation. */
+    messageIndex: number;
+    message: Message;
+    /** When the message was sent; the conversation's start for messages saved before timestamps were recorded. */
+    date: number;
+    /** The text around the first match, or the start of the message when no text is searched. */
+    excerpt: string;
+}
+
+export const DEFAULT_SEARCH_FILTERS: ConversationSearchFilters = { role: 'all', from: '', to: '', unsourcedOnly: false };
+
+// Characters of context kept on each side of the match in an excerpt.
+const EXCERPT_CONTEXT = 60;
+// Results beyond this are not listed; the query or the filters should be narrowed instead.
+export const MAX_SEARCH_RESULTS = 200;
+
+/**
+ * Whether a model message answers a question, as opposed to the greeting or the empty knowledge base notice.
+ * Answers refer to a snapshot; those saved before snapshots were recorded still carry their retrieval trace.
+ */
+const isAnswer = (message: Message): boolean =>
+    message.role === 'model' && !message.failed && (message.snapshotId !== undefined || message.retrieval !== undefined);
+
+/**
+ * Whether an answer was given without support from the knowledge base.
+ */
+export const isUnsourcedAnswer = (message: Message): boolean =>
+    isAnswer(message) && (message.assessment?.status === 'not_found' || !message.sources?.length);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Case-insensitive pattern of a search query, where any run of whitespace (line breaks included) matches any other.
+ * Shared by the search and the highlights, so that every message found shows its match.
+ * @returns `null` for a blank query.
+ */
+export const searchPattern = (query: string): RegExp | null => {
+    const words = query.trim().split(/\s+/).filter(Boolean);
+    return words.length > 0 ? new RegExp(words.map(escapeRegExp).join('\\s+'), 'i') : null;
+};
+
+const excerptAround = (text: string, matchIndex: number, matchLength: number): string => {
+    const start = Math.max(0, matchIndex - EXCERPT_CONTEXT);
+    const end = Math.min(text.length, matchIndex + matchLength + EXCERPT_CONTEXT);
+    const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+};
+
+const dayStart = (day: string, offsetDays = 0): number => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date + offsetDays).getTime();
+};
+
+/**
+ * Finds the messages of the saved conversations containing the query (case-insensitive) and matching the filters,
+ * newest first. With an empty query, every message matching the filters is listed, provided a filter is set.
+ */
+export const searchConversations = (
+    conversations: Conversation[],
+    query: string,
+    filters: ConversationSearchFilters,
+): ConversationSearchResult[] => {
+    const pattern = searchPattern(query);
+    const hasFilters = filters.role !== 'all' || filters.from !== '' || filters.to !== '' || filters.unsourcedOnly;
+    if (!pattern && !hasFilters) return [];
+
+    const from = filters.from ? dayStart(filters.from) : -Infinity;
+    // The end day is included whole.
+    const to = filters.to ? dayStart(filters.to, 1) : Infinity;
+
+    const results: ConversationSearchResult[] = [];
+    for (const conversation of conversations) {
+        conversation.messages.forEach((message, messageIndex) => {
+            if (filters.role !== 'all' && message.role !== filters.role) return;
+            if (filters.unsourcedOnly && !isUnsourcedAnswer(message)) return;
+            const date = message.createdAt ?? conversation.createdAt;
+            if (date < from || date >= to) return;
+            const match = pattern ? pattern.exec(message.text) : null;
+            if (pattern && !match) return;
+            results.push({
+                conversationId: conversation.id,
+                messageIndex,
+                message,
+                date,
+                excerpt: excerptAround(message.text, match?.index ?? 0, match?.[0].length ?? 0),
+            });
+        });
+    }
+    return results.sort((a, b) => b.date - a.date).slice(0, MAX_SEARCH_RESULTS);
+};
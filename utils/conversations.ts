@@ -0,0 +1,45 @@
+import type { Conversation, ConversationSnapshot, KnowledgeDocument, Settings } from '../types';
+import { knowledgeBaseFingerprint } from './suggestions';
+
+export const UNTITLED_CONVERSATION = 'Nuova conversazione';
+
+// Length of the first question shown as title, before one is generated.
+const FALLBACK_TITLE_LENGTH = 60;
+
+/**
+ * Title shown for a conversation: its own, otherwise its first question.
+ */
+export const displayConversationTitle = (conversation: Pick<Conversation, 'title' | 'messages'>): string => {
+    if (conversation.title?.trim()) return conversation.title.trim();
+    const question = conversation.messages.find(msg => msg.role === 'user')?.text.replace(/\s+/g, ' ').trim();
+    if (!question) return UNTITLED_CONVERSATION;
+    return question.length > FALLBACK_TITLE_LENGTH ? `${question.slice(0, FALLBACK_TITLE_LENGTH - 1).trimEnd()}…` : question;
+};
+
+/**
+ * Orders conversations for the history list: pinned ones first, then the most recently updated.
+ */
+export const sortConversations = <T extends Pick<Conversation, 'pinned' | 'updatedAt'>>(conversations: T[]): T[] =>
+    [...conversations].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.updatedAt - a.updatedAt);
+
+/**
+ * Records the settings and the enabled documents a turn is answered with.
+ */
+export const createSnapshot = (settings: Settings, documents: KnowledgeDocument[]): ConversationSnapshot => ({
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    settings,
+    knowledgeBase: {
+        fingerprint: knowledgeBaseFingerprint(documents),
+        documents: documents
+            .filter(doc => doc.enabled)
+            .map(({ id, title, source, loadedAt }) => ({ id, title, source, loadedAt })),
+    },
+});
+
+/**
+ * Whether a turn answered with these settings and documents would be held with the same setup as the snapshot.
+ */
+export const matchesSnapshot = (snapshot: ConversationSnapshot, settings: Settings, documents: KnowledgeDocument[]): boolean =>
+    snapshot.knowledgeBase.fingerprint === knowledgeBaseFingerprint(documents)
+    && JSON.stringify(snapshot.settings) === JSON.stringify(settings);
@@ -0,0 +1,141 @@
+import type { ChunkReference, DocumentDigest, FaqEntry, KnowledgeChunk, KnowledgeDigest } from '../types';
+import { analyzeText } from './textAnalysis';
+import { estimateTokens } from './knowledgeBase';
+import { formatPageRange } from './retrieval';
+
+/** Document id of the chunks made from approved FAQ entries. */
+export const FAQ_DOCUMENT_ID = 'faq';
+export const FAQ_SOURCE_TITLE = 'FAQ approvate';
+
+// Minimum similarity between a question and an FAQ question for the entry to be sent as context.
+const FAQ_MATCH_THRESHOLD = 0.5;
+
+/**
+ * Splits the chunks of a document into consecutive batches of at most `maxTokens` estimated tokens,
+ * each summarized in a single request. A chunk larger than the limit gets a batch of its own.
+ */
+export const batchChunks = (chunks: KnowledgeChunk[], maxTokens: number): KnowledgeChunk[][] => {
+    const batches: KnowledgeChunk[][] = [];
+    let current: KnowledgeChunk[] = [];
+    let used = 0;
+    for (const chunk of chunks) {
+        if (current.length > 0 && used + chunk.tokenCount > maxTokens) {
+            batches.push(current);
+            current = [];
+            used = 0;
+        }
+        current.push(chunk);
+        used += chunk.tokenCount;
+    }
+    if (current.length > 0) batches.push(current);
+    return batches;
+};
+
+/**
+ * Builds the table of contents of a document from the heading paths of its chunks, in document order.
+ */
+export const outlineFromHeadings = (chunks: KnowledgeChunk[]): DocumentDigest['outline'] => {
+    const seen = new Set<string>();
+    const outline: DocumentDigest['outline'] = [];
+    for (const chunk of chunks) {
+        chunk.headingPath.forEach((title, i) => {
+            const key = chunk.headingPath.slice(0, i + 1).join('\u0000');
+            if (seen.has(key)) return;
+            seen.add(key);
+            outline.push({ level: i + 1, title });
+        });
+    }
+    return outline;
+};
+
+/**
+ * Keeps the most frequent names among those found in each batch, merging case variants.
+ */
+export const mergeEntities = (batches: string[][], maxEntities: number): string[] => {
+    const counts = new Map<string, { name: string; count: number }>();
+    for (const entity of batches.flat()) {
+        const name = entity.trim();
+        if (!name) continue;
+        const key = name.toLowerCase();
+        const entry = counts.get(key) ?? { name, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+    }
+    return [...counts.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, maxEntities)
+        .map(entry => entry.name);
+};
+
+// Dice coefficient of the analyzed terms of two texts.
+const termSimilarity = (a: string, b: string): number => {
+    const termsA = new Set(analyzeText(a));
+    const termsB = new Set(analyzeText(b));
+    if (termsA.size === 0 || termsB.size === 0) return 0;
+    const shared = [...termsA].filter(term => termsB.has(term)).length;
+    return (2 * shared) / (termsA.size + termsB.size);
+};
+
+/**
+ * Finds the approved FAQ entries whose question is close to the user's, best match first.
+ */
+export const matchFaqEntries = (query: string, entries: FaqEntry[], maxEntries: number): FaqEntry[] => entries
+    .filter(entry => entry.approved && entry.question.trim() && entry.answer.trim())
+    .map(entry => ({ entry, score: termSimilarity(query, entry.question) }))
+    .filter(({ score }) => score >= FAQ_MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxEntries)
+    .map(({ entry }) => entry);
+
+/**
+ * Turns an FAQ entry into a chunk, so that it can be sent and cited like the retrieved ones.
+ */
+export const faqEntryToChunk = (entry: FaqEntry): KnowledgeChunk => {
+    const text = `Domanda: ${entry.question}\nRisposta: ${entry.answer}`;
+    return {
+        id: `${FAQ_DOCUMENT_ID}:${entry.id}`,
+        documentId: FAQ_DOCUMENT_ID,
+        text,
+        headingPath: [],
+        startOffset: 0,
+        endOffset: text.length,
+        tokenCount: estimateTokens(text),
+    };
+};
+
+const formatReference = (reference: ChunkReference): string => {
+    const pages = formatPageRange(reference);
+    return pages ? `${reference.documentTitle}, ${pages}` : reference.documentTitle;
+};
+
+/**
+ * Writes the digest as a Markdown document, for review outside the app.
+ */
+export const digestToMarkdown = (digest: KnowledgeDigest): string => {
+    const lines: string[] = ['# Digest della base di conoscenza', '', `Generato il ${new Date(digest.createdAt).toLocaleString('it-IT')}.`, ''];
+
+    for (const doc of digest.documents) {
+        lines.push(`## ${doc.title}`, '', doc.summary, '');
+        if (doc.outline.length > 0) {
+            lines.push('### Indice', '');
+            doc.outline.forEach(item => lines.push(`${'  '.repeat(item.level - 1)}- ${item.title}`));
+            lines.push('');
+        }
+    }
+
+    if (digest.entities.length > 0) {
+        lines.push('## Entità principali', '', ...digest.entities.map(entity => `- ${entity}`), '');
+    }
+
+    if (digest.faq.length > 0) {
+        lines.push('## FAQ', '');
+        for (const entry of digest.faq) {
+            lines.push(`### ${entry.question}${entry.approved ? '' : ' (bozza)'}`, '', entry.answer, '');
+            if (entry.references.length > 0) {
+                lines.push(`Fonti: ${entry.references.map(formatReference).join('; ')}`, '');
+            }
+        }
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+};
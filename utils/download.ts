@@ -0,0 +1,14 @@
+/**
+ * Saves text as a file through the browser's download prompt.
+ */
+export const downloadText = (text: string, fileName: string, mimeType: string) => {
+    const blob = new Blob([text], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
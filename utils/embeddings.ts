@@ -0,0 +1,47 @@
+import type { EmbeddingTaskType, LlmProvider } from '../services/llmProvider';
+import { analyzeText } from './textAnalysis';
+
+/**
+ * Turns texts into vectors for semantic retrieval.
+ * `model` identifies the vector space: vectors from different models must never be compared.
+ */
+export interface Embedder {
+    model: string;
+    embed: (texts: string[], taskType: EmbeddingTaskType, signal?: AbortSignal) => Promise<number[][]>;
+}
+
+/** Embedder backed by the embedding API of a provider. */
+export const createProviderEmbedder = (provider: LlmProvider): Embedder => ({
+    model: provider.embeddingModel,
+    embed: (texts, taskType, signal) => provider.embed(texts, taskType, signal),
+});
+
+// 32-bit FNV-1a hash, used to map terms to vector dimensions.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Creates a deterministic, offline embedder based on feature hashing of stemmed terms and their bigrams.
+ * It captures lexical similarity only, so it is meant for tests and offline development, not for production retrieval.
+ * @param dimensions The size of the generated vectors.
+ */
+export const createHashingEmbedder = (dimensions: number = 256): Embedder => ({
+    model: `hashing-${dimensions}`,
+    embed: async (texts) => texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const terms = analyzeText(text);
+        const features = [...terms, ...terms.slice(1).map((term, i) => `${terms[i]} ${term}`)];
+        for (const feature of features) {
+            const hash = hashString(feature);
+            // The top bit picks the sign, so that unrelated features tend to cancel out.
+            vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        return vector;
+    }),
+});
@@ -0,0 +1,279 @@
+import type { ExtractedContent } from '../types';
+import { extractContentFromPDF } from './pdfParser';
+
+/** Estensioni accettate dal selettore file e dal drag-and-drop. */
+export const ACCEPTED_FILE_EXTENSIONS = ['.pdf', '.docx', '.md', '.markdown', '.txt', '.html', '.htm', '.csv'];
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const getExtension = (fileName: string): string => {
+    const dotIndex = fileName.lastIndexOf('.');
+    return dotIndex >= 0 ? fileName.slice(dotIndex).toLowerCase() : '';
+};
+
+export const isSupportedFile = (file: File): boolean => ACCEPTED_FILE_EXTENSIONS.includes(getExtension(file.name));
+
+/** I PDF sono gli unici file di cui si conservano i byte originali, per il visualizzatore. */
+export const isPdfFile = (file: File): boolean => getExtension(file.name) === '.pdf';
+
+// --- Lettura ZIP minimale (un file DOCX è un archivio ZIP) ---
+
+/**
+ * Estrae una singola voce da un archivio ZIP usando la directory centrale.
+ * Supporta solo le voci non compresse (stored) o compresse con deflate, che sono gli unici metodi usati dai file DOCX.
+ * @param buffer Il contenuto dell'archivio.
+ * @param entryName Il percorso della voce da estrarre (es. "word/document.xml").
+ * @returns Il contenuto della voce decodificato come UTF-8, oppure null se la voce non esiste.
+ */
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<string | null> => {
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+
+    // Cerca a ritroso il record "End of Central Directory".
+    let eocdOffset = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocdOffset = i;
+            break;
+        }
+    }
+    if (eocdOffset < 0) {
+        throw new Error("Archivio DOCX non valido.");
+    }
+
+    const entryCount = view.getUint16(eocdOffset + 10, true);
+    let offset = view.getUint32(eocdOffset + 16, true);
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) break;
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeaderOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+        if (name === entryName) {
+            const localNameLength = view.getUint16(localHeaderOffset + 26, true);
+            const localExtraLength = view.getUint16(localHeaderOffset + 28, true);
+            const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+            const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+            if (method === 0) {
+                return decoder.decode(data);
+            }
+            if (method === 8) {
+                const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+                return new Response(stream).text();
+            }
+            throw new Error(`Metodo di compressione ZIP non supportato (${method}).`);
+        }
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return null;
+};
+
+// --- Estrattori per formato ---
+
+/**
+ * Estrae il testo da un file DOCX leggendo `word/document.xml`.
+ * Ogni paragrafo diventa un blocco separato da una riga vuota; le righe delle tabelle hanno le celle separate da " | ".
+ */
+export const extractTextFromDOCX = async (file: File): Promise<string> => {
+    const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+    if (!xml) {
+        throw new Error("Il file DOCX non contiene un documento Word.");
+    }
+
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+    const paragraphText = (paragraph: Element): string => {
+        let text = '';
+        for (const node of Array.from(paragraph.getElementsByTagNameNS(WORD_NS, '*'))) {
+            if (node.localName === 't') text += node.textContent ?? '';
+            else if (node.localName === 'tab') text += '\t';
+            else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+        }
+        return text;
+    };
+
+    const body = doc.getElementsByTagNameNS(WORD_NS, 'body')[0];
+    if (!body) return '';
+
+    const blocks: string[] = [];
+    for (const child of Array.from(body.children)) {
+        if (child.localName === 'p') {
+            const text = paragraphText(child);
+            if (text.trim()) blocks.push(text);
+        } else if (child.localName === 'tbl') {
+            const rows = Array.from(child.getElementsByTagNameNS(WORD_NS, 'tr')).map(row =>
+                Array.from(row.getElementsByTagNameNS(WORD_NS, 'tc'))
+                    .map(cell => Array.from(cell.getElementsByTagNameNS(WORD_NS, 'p')).map(paragraphText).join(' ').trim())
+                    .join(' | ')
+            );
+            blocks.push(rows.join('\n'));
+        }
+    }
+    return blocks.join('\n\n');
+};
+
+/**
+ * Estrae il testo da un file Markdown, rimuovendo la sintassi di formattazione ma mantenendo i titoli.
+ */
+export const extractTextFromMarkdown = async (file: File): Promise<string> => {
+    const markdown = await file.text();
+    return markdown
+        .replace(/\r\n/g, '\n') // A capo di Windows, prima di cercare il front matter
+        .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // Immagini
+        .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)') // Link
+        .replace(/<[^>]+>/g, '') // HTML inline
+        .replace(/(\*\*|__)(.+?)\1/g, '$2') // Grassetto
+        .replace(/(^|[^*\w])[*_]([^*_\n]+)[*_](?=[^*\w]|$)/g, '$1$2'); // Corsivo
+};
+
+/**
+ * Estrae il testo da un file di testo semplice.
+ */
+export const extractTextFromPlainText = async (file: File): Promise<string> => {
+    return (await file.text()).replace(/\r\n/g, '\n');
+};
+
+const HTML_BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER',
+    'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TR', 'UL',
+]);
+
+/**
+ * Estrae il testo visibile da un file HTML, separando con una riga vuota gli elementi di blocco.
+ */
+export const extractTextFromHTML = async (file: File): Promise<string> => {
+    const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+    doc.querySelectorAll('script, style, noscript, template').forEach(el => el.remove());
+
+    let text = '';
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            text += (node.textContent ?? '').replace(/\s+/g, ' ');
+            return;
+        }
+        if (!(node instanceof Element)) return;
+
+        const isBlock = HTML_BLOCK_TAGS.has(node.tagName);
+        if (isBlock) text += '\n\n';
+        if (node.tagName === 'BR') text += '\n';
+        if (node.tagName === 'TD' || node.tagName === 'TH') text += ' | ';
+        node.childNodes.forEach(walk);
+        if (isBlock) text += '\n\n';
+    };
+    walk(doc.body);
+
+    return text
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+};
+
+/**
+ * Divide un testo CSV in righe e celle, gestendo i campi tra virgolette.
+ */
+const parseCSV = (csv: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < csv.length; i++) {
+        const char = csv[i];
+        if (inQuotes) {
+            if (char === '"' && csv[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && csv[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+/**
+ * Estrae il testo da un file CSV. Ogni riga diventa un blocco "Colonna: valore" per rendere i dati interrogabili.
+ * Il separatore (virgola o punto e virgola, comune negli export italiani) viene rilevato dalla prima riga.
+ */
+export const extractTextFromCSV = async (file: File): Promise<string> => {
+    const csv = await file.text();
+    const firstLine = csv.split('\n', 1)[0];
+    const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+    const [header, ...rows] = parseCSV(csv, delimiter);
+    if (!header) return '';
+
+    return rows
+        .map(row => row
+            .map((cell, i) => `${header[i]?.trim() || `Colonna ${i + 1}`}: ${cell.trim()}`)
+            .join('; '))
+        .join('\n\n');
+};
+
+/**
+ * Estrae il contenuto di un file scegliendo l'estrattore in base all'estensione.
+ * Solo i PDF producono segmenti con numero di pagina; per gli altri formati viene restituito il solo testo.
+ * @param file Il file da analizzare.
+ * @param onProgress Callback opzionale con la frazione completata (0-1).
+ * @returns Una Promise che si risolve con il contenuto estratto.
+ */
+export const extractContentFromFile = async (file: File, onProgress?: (progress: number) => void): Promise<ExtractedContent> => {
+    const extension = getExtension(file.name);
+    let text: string;
+
+    switch (extension) {
+        case '.pdf':
+            return extractContentFromPDF(file, onProgress);
+        case '.docx':
+            text = await extractTextFromDOCX(file);
+            break;
+        case '.md':
+        case '.markdown':
+            text = await extractTextFromMarkdown(file);
+            break;
+        case '.txt':
+            text = await extractTextFromPlainText(file);
+            break;
+        case '.html':
+        case '.htm':
+            text = await extractTextFromHTML(file);
+            break;
+        case '.csv':
+            text = await extractTextFromCSV(file);
+            break;
+        default:
+            throw new Error(`Formato non supportato: ${extension || 'sconosciuto'}`);
+    }
+
+    onProgress?.(1);
+    return { text };
+};
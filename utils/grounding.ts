@@ -0,0 +1,72 @@
+import type { GroundingClaim, GroundingResult, MessageSource } from '../types';
+import { parseMarkdown, collectInlineRuns, inlineText } from './markdown';
+import { analyzeText, tokenize } from './textAnalysis';
+
+// Sentences with fewer content terms than this ("Ecco i dettagli:") carry no claim worth checking.
+const MIN_CLAIM_TERMS = 3;
+// Fraction of a claim's terms that must appear in a single chunk for the claim to count as supported.
+const LEXICAL_SUPPORT_THRESHOLD = 0.6;
+
+const isNumber = (token: string) => /^\d+$/.test(token);
+
+/**
+ * Splits an answer into claims: the sentences of its text as displayed, without Markdown syntax or citation markers.
+ * Code blocks and sentences too short to state a fact are left out.
+ */
+export const extractClaims = (answer: string): string[] => collectInlineRuns(parseMarkdown(answer))
+    .flatMap(run => inlineText(run).split(/(?<=[.!?;])\s+|\n+/))
+    .map(sentence => sentence.trim())
+    .filter(sentence => analyzeText(sentence).length >= MIN_CLAIM_TERMS);
+
+/**
+ * Scores a claim against a chunk by the fraction of its terms the chunk contains.
+ * A figure missing from the chunk makes the score 0, since wrong numbers are the costliest unsupported claims.
+ */
+const lexicalOverlap = (claim: string, chunkTokens: Set<string>, chunkTerms: Set<string>): number => {
+    if (tokenize(claim).some(token => isNumber(token) && !chunkTokens.has(token))) return 0;
+    const terms = new Set(analyzeText(claim));
+    let matched = 0;
+    for (const term of terms) {
+        if (chunkTerms.has(term)) matched++;
+    }
+    return terms.size > 0 ? matched / terms.size : 0;
+};
+
+const withScore = (method: GroundingResult['method'], claims: GroundingClaim[]): GroundingResult => ({
+    method,
+    score: claims.filter(claim => claim.supported).length / claims.length,
+    claims,
+});
+
+/**
+ * Checks each claim of an answer against the chunks sent as its context, by term overlap.
+ * @returns The result, or `undefined` if the answer makes no claim to check.
+ */
+export const verifyGrounding = (answer: string, sources: MessageSource[]): GroundingResult | undefined => {
+    const claims = extractClaims(answer);
+    if (claims.length === 0) return undefined;
+
+    const chunks = sources.map(source => ({
+        chunkId: source.chunkId,
+        tokens: new Set(tokenize(source.text)),
+        terms: new Set(analyzeText(source.text)),
+    }));
+
+    return withScore('lexical', claims.map(text => {
+        let best: { overlap: number; chunkId?: string } = { overlap: 0 };
+        for (const chunk of chunks) {
+            const overlap = lexicalOverlap(text, chunk.tokens, chunk.terms);
+            if (overlap > best.overlap) best = { overlap, chunkId: chunk.chunkId };
+        }
+        return { text, supported: best.overlap >= LEXICAL_SUPPORT_THRESHOLD, ...best };
+    }));
+};
+
+/**
+ * Replaces the lexical verdicts with those of a model acting as judge, one per claim in order.
+ * Claims the judge gave no verdict for keep their lexical verdict.
+ */
+export const applyJudgeVerdicts = (result: GroundingResult, verdicts: (boolean | undefined)[]): GroundingResult => withScore(
+    'llm',
+    result.claims.map((claim, i) => ({ ...claim, supported: verdicts[i] ?? claim.supported }))
+);
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '../types';
+import { planHistory } from './history';
+
+// Each message is 10 estimated tokens.
+const user = (n: number): Message => ({ role: 'user', text: `domanda ${n}`.padEnd(40, '.') });
+const model = (n: number): Message => ({ role: 'model', text: `risposta ${n}`.padEnd(40, '.') });
+
+const HISTORY = [user(1), model(1), user(2), model(2), user(3), model(3)];
+
+describe('planHistory', () => {
+    it('sends the whole history when it fits the budget', () => {
+        const plan = planHistory(HISTORY, 60);
+        expect(plan.recent).toEqual(HISTORY);
+        expect(plan.overflow).toEqual([]);
+        expect(plan.coveredCount).toBe(0);
+    });
+
+    it('sends no history with a budget of 0', () => {
+        expect(planHistory(HISTORY, 0)).toEqual({ recent: [], overflow: [], coveredCount: 0 });
+    });
+
+    it('moves the oldest turns to the overflow, starting the recent ones with a question', () => {
+        // 30 tokens would fit model(2), user(3) and model(3), but the recent turns must open with a question.
+        const plan = planHistory(HISTORY, 30);
+        expect(plan.recent).toEqual([user(3), model(3)]);
+        expect(plan.overflow).toEqual(HISTORY.slice(0, 4));
+        expect(plan.coveredCount).toBe(4);
+    });
+
+    it('counts the summary against the budget and only overflows the messages it does not cover', () => {
+        const summary = { text: 'riepilogo'.padEnd(40, '.'), messageCount: 2 };
+        const plan = planHistory(HISTORY, 40, summary);
+        expect(plan.summary).toBe(summary);
+        expect(plan.recent).toEqual([user(3), model(3)]);
+        expect(plan.overflow).toEqual([user(2), model(2)]);
+        expect(plan.coveredCount).toBe(4);
+    });
+
+    it('discards a summary covering messages that are gone', () => {
+        const plan = planHistory(HISTORY.slice(0, 2), 60, { text: 'riepilogo', messageCount: 4 });
+        expect(plan.summary).toBeUndefined();
+        expect(plan.recent).toEqual(HISTORY.slice(0, 2));
+    });
+
+    it('neither sends nor summarizes failed answers', () => {
+        const failed: Message = { role: 'model', text: 'Errore: richiesta non riuscita.'.padEnd(400, '.'), failed: true };
+        const history = [user(1), failed, user(2), model(2)];
+        const plan = planHistory(history, 20);
+        expect(plan.recent).toEqual([user(2), model(2)]);
+        expect(plan.overflow).toEqual([user(1)]);
+        expect(plan.coveredCount).toBe(2);
+    });
+});
@@ -0,0 +1,49 @@
+import type { Message, ConversationSummary } from '../types';
+import { estimateTokens } from './knowledgeBase';
+
+export interface HistoryPlan {
+    /** The running summary still valid for this history, if any. */
+    summary?: ConversationSummary;
+    /** The most recent messages, sent verbatim. */
+    recent: Message[];
+    /** Messages that no longer fit the budget and are not yet covered by the summary. */
+    overflow: Message[];
+    /** Number of leading messages of the history covered once the overflow is folded into the summary. */
+    coveredCount: number;
+}
+
+/**
+ * Splits the messages preceding a question into the recent turns that fit the token budget and the older
+ * ones that must be folded into the running summary. The summary counts against the budget too.
+ * Failed answers hold an error notice rather than an answer, so they are neither sent nor summarized.
+ * @param history The messages before the current question, oldest first.
+ * @param budget The maximum estimated tokens of history to send; 0 sends no history at all.
+ * @param summary The current running summary of the conversation.
+ */
+export const planHistory = (history: Message[], budget: number, summary?: ConversationSummary): HistoryPlan => {
+    if (budget <= 0) return { recent: [], overflow: [], coveredCount: 0 };
+
+    // A summary covering messages that are gone (e.g. after re-running an earlier turn) is discarded.
+    const validSummary = summary && summary.messageCount <= history.length ? summary : undefined;
+    const start = validSummary?.messageCount ?? 0;
+    const available = budget - (validSummary ? estimateTokens(validSummary.text) : 0);
+
+    let cut = history.length;
+    let used = 0;
+    while (cut > start) {
+        const tokens = history[cut - 1].failed ? 0 : estimateTokens(history[cut - 1].text);
+        if (used + tokens > available) break;
+        used += tokens;
+        cut--;
+    }
+    // The model expects the conversation to open with a user turn.
+    while (cut < history.length && history[cut].role !== 'user') cut++;
+
+    const withoutFailed = (messages: Message[]) => messages.filter(msg => !msg.failed);
+    return {
+        summary: validSummary,
+        recent: withoutFailed(history.slice(cut)),
+        overflow: withoutFailed(history.slice(start, cut)),
+        coveredCount: cut,
+    };
+};
@@ -0,0 +1,44 @@
+import type { KnowledgeDocument, ExtractedContent } from '../types';
+
+export const CHARS_PER_TOKEN = 4; // A common approximation for token calculation
+
+export const estimateTokens = (text: string): number => Math.round(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Tells whether a document was fetched from a URL (and can be reloaded from it)
+ * or uploaded from a local file (and needs the file to be picked again).
+ */
+export const isRemoteSource = (document: KnowledgeDocument): boolean => /^https?:\/\//i.test(document.source);
+
+/**
+ * Builds a new knowledge base document from extracted content.
+ * @param content The extracted text (and segments, if any) of the document.
+ * @param title The display name of the document (usually the file name).
+ * @param source The URL or file name the document was loaded from.
+ * @returns A new, enabled document.
+ */
+export const createKnowledgeDocument = ({ text, segments }: ExtractedContent, title: string, source: string): KnowledgeDocument => ({
+    id: crypto.randomUUID(),
+    title,
+    source,
+    loadedAt: Date.now(),
+    size: text.length,
+    tokenEstimate: estimateTokens(text),
+    enabled: true,
+    text,
+    segments,
+});
+
+/**
+ * Replaces the content of an existing document, keeping its id, title and enabled state.
+ * Embeddings of the old content no longer apply, so the document is marked as not embedded.
+ */
+export const refreshKnowledgeDocument = (document: KnowledgeDocument, { text, segments }: ExtractedContent): KnowledgeDocument => ({
+    ...document,
+    loadedAt: Date.now(),
+    size: text.length,
+    tokenEstimate: estimateTokens(text),
+    text,
+    segments,
+    embeddingModel: undefined,
+});
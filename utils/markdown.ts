@@ -0,0 +1,379 @@
+/**
+ * A small Markdown parser for model answers. It produces a tree that is rendered with React elements,
+ * never with raw HTML, so nothing in an answer can inject markup or scripts.
+ * Supported: headings, paragraphs, bold/italic/strikethrough, inline and fenced code, links,
+ * ordered/unordered (nested) lists, blockquotes, rules, GFM tables and citation markers ("[1]", "[1, 2]").
+ */
+
+export type InlineNode =
+    | { type: 'text'; text: string }
+    | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: InlineNode[] }
+    | { type: 'citation'; numbers: number[] }
+    | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+    | { type: 'paragraph'; children: InlineNode[] }
+    | { type: 'heading'; level: number; children: InlineNode[] }
+    | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+    | { type: 'code'; language: string; text: string }
+    | { type: 'table'; align: TableAlignment[]; header: InlineNode[][]; rows: InlineNode[][][] }
+    | { type: 'blockquote'; children: BlockNode[] }
+    | { type: 'rule' };
+
+export interface MarkdownOptions {
+    /**
+     * The text is still streaming: constructs left open at the very end (bold, code, a table being written)
+     * are rendered as if already closed, so the output doesn't flicker between raw and formatted.
+     */
+    partial?: boolean;
+}
+
+const SAFE_URL = /^(https?:|mailto:|tel:)/i;
+
+/**
+ * Returns the URL if it uses a safe protocol, or null (e.g. for "javascript:" links).
+ */
+export const sanitizeUrl = (href: string): string | null => {
+    const url = href.trim();
+    return SAFE_URL.test(url) ? url : null;
+};
+
+// --- Inline ---
+
+const LINK = /^\[([^\]]+)\]\(([^()\s]+)\)/;
+const CITATION = /^\[(\d+(?:\s*,\s*\d+)*)\]/;
+const DELIMITERS = ['**', '__', '~~', '*', '_'] as const;
+const DELIMITER_TYPES: Record<(typeof DELIMITERS)[number], 'strong' | 'em' | 'del'> = {
+    '**': 'strong', '__': 'strong', '~~': 'del', '*': 'em', '_': 'em',
+};
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+/**
+ * Parses the inline content of a block.
+ * @param partial Unclosed code spans and emphasis at the end of the text run to its end instead of staying literal.
+ */
+export const parseInline = (text: string, partial = false): InlineNode[] => {
+    const nodes: InlineNode[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) nodes.push({ type: 'text', text: buffer });
+        buffer = '';
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        const rest = text.slice(i);
+
+        if (char === '\\' && i + 1 < text.length && /[\\`*_~[\]()#|>-]/.test(text[i + 1])) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (char === '\n') {
+            flush();
+            nodes.push({ type: 'break' });
+            i++;
+            continue;
+        }
+
+        if (char === '`') {
+            const end = text.indexOf('`', i + 1);
+            if (end > i || partial) {
+                flush();
+                nodes.push({ type: 'code', text: text.slice(i + 1, end > i ? end : text.length) });
+                i = end > i ? end + 1 : text.length;
+                continue;
+            }
+        }
+
+        if (char === '[') {
+            const link = rest.match(LINK);
+            if (link) {
+                const href = sanitizeUrl(link[2]);
+                flush();
+                // A link with an unsafe URL keeps its text but loses the link.
+                nodes.push(href
+                    ? { type: 'link', href, children: parseInline(link[1]) }
+                    : { type: 'text', text: link[1] });
+                i += link[0].length;
+                continue;
+            }
+            const citation = rest.match(CITATION);
+            if (citation) {
+                flush();
+                nodes.push({ type: 'citation', numbers: citation[1].split(',').map(n => parseInt(n.trim(), 10)) });
+                i += citation[0].length;
+                continue;
+            }
+        }
+
+        const delimiter = DELIMITERS.find(d => rest.startsWith(d));
+        if (delimiter) {
+            const after = text[i + delimiter.length];
+            // "_" inside a word (snake_case) and delimiters followed by a space are plain text.
+            const canOpen = after !== undefined && !/\s/.test(after) && !(delimiter[0] === '_' && isWordChar(text[i - 1]));
+            if (canOpen) {
+                const end = findClosingDelimiter(text, i + delimiter.length, delimiter);
+                if (end >= 0 || partial) {
+                    flush();
+                    const inner = text.slice(i + delimiter.length, end >= 0 ? end : text.length);
+                    nodes.push({ type: DELIMITER_TYPES[delimiter], children: parseInline(inner, partial && end < 0) });
+                    i = end >= 0 ? end + delimiter.length : text.length;
+                    continue;
+                }
+            }
+            buffer += delimiter;
+            i += delimiter.length;
+            continue;
+        }
+
+        buffer += char;
+        i++;
+    }
+    flush();
+    return nodes;
+};
+
+const findClosingDelimiter = (text: string, from: number, delimiter: string): number => {
+    let i = from;
+    while (i < text.length) {
+        if (text[i] === '\\') {
+            i += 2;
+            continue;
+        }
+        if (text[i] === '`') {
+            // Delimiters inside code spans don't count.
+            const end = text.indexOf('`', i + 1);
+            if (end < 0) return -1;
+            i = end + 1;
+            continue;
+        }
+        if (text.startsWith(delimiter, i) && !/\s/.test(text[i - 1])) {
+            // "**" must not be taken as the closing of "*".
+            const isLonger = delimiter.length === 1 && text[i + 1] === delimiter;
+            const isWordInternal = delimiter[0] === '_' && isWordChar(text[i + delimiter.length]);
+            if (!isLonger && !isWordInternal) return i;
+            if (isLonger) {
+                i += 2;
+                continue;
+            }
+        }
+        i++;
+    }
+    return -1;
+};
+
+// --- Blocks ---
+
+const FENCE = /^\s{0,3}(```+|~~~+)\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// What a table separator looks like while it is still being written ("|--", "| :-- | -").
+const PARTIAL_TABLE_SEPARATOR = /^\s*\|[\s:|-]*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+// A separator needs at least one pipe, so that "---" under a line containing "|" stays a rule.
+const isTableSeparator = (line: string | undefined): boolean => line !== undefined && line.includes('|') && TABLE_SEPARATOR.test(line);
+
+const splitTableRow = (line: string): string[] => {
+    let row = line.trim();
+    if (row.startsWith('|')) row = row.slice(1);
+    if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+    // Split on pipes that are not escaped.
+    return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlignment = (cell: string): TableAlignment => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    if (left) return 'left';
+    return null;
+};
+
+const startsBlock = (line: string, next: string | undefined): boolean => {
+    return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line)
+        || (line.includes('|') && isTableSeparator(next));
+};
+
+const parseBlocks = (lines: string[], partial: boolean): BlockNode[] => {
+    const blocks: BlockNode[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const next = lines[i + 1];
+        const isLastLine = i === lines.length - 1;
+
+        if (isBlank(line)) {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                body.push(lines[i]);
+                i++;
+            }
+            i++; // Closing fence; an unclosed fence runs to the end, which is also right while streaming.
+            blocks.push({ type: 'code', language: fence[2], text: body.join('\n') });
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2], partial && isLastLine) });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+                quoted.push(lines[i].match(BLOCKQUOTE)![1]);
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseBlocks(quoted, partial && i === lines.length) });
+            continue;
+        }
+
+        const isTable = line.includes('|') && (
+            isTableSeparator(next)
+            // While streaming, a header row followed by a separator being written is already a table.
+            || (partial && line.trim().startsWith('|') && (isLastLine || (i + 1 === lines.length - 1 && PARTIAL_TABLE_SEPARATOR.test(next!))))
+        );
+        if (isTable) {
+            const header = splitTableRow(line);
+            const separator = isTableSeparator(next) ? splitTableRow(next!) : [];
+            const align = header.map((_, c) => separator[c] ? parseAlignment(separator[c]) : null);
+            i += next !== undefined ? 2 : 1;
+            const rows: InlineNode[][][] = [];
+            while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+                const cells = splitTableRow(lines[i]);
+                const isLastRow = partial && i === lines.length - 1;
+                rows.push(header.map((_, c) => parseInline(cells[c] ?? '', isLastRow)));
+                i++;
+            }
+            blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell)), rows });
+            continue;
+        }
+
+        const listItem = line.match(LIST_ITEM);
+        if (listItem) {
+            const indent = listItem[1].length;
+            const ordered = /\d/.test(listItem[2]);
+            const start = ordered ? parseInt(listItem[2], 10) : 1;
+            const items: string[][] = [];
+
+            while (i < lines.length) {
+                const item = lines[i].match(LIST_ITEM);
+                if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+                    items.push([item[3]]);
+                    i++;
+                    continue;
+                }
+                if (isBlank(lines[i])) {
+                    // A blank line ends the list unless the list, or the current item, continues after it.
+                    const following = lines.slice(i + 1).find(l => !isBlank(l));
+                    const followingItem = following?.match(LIST_ITEM);
+                    const continues = following !== undefined && (
+                        (followingItem && followingItem[1].length === indent && /\d/.test(followingItem[2]) === ordered)
+                        || following.search(/\S/) > indent
+                    );
+                    if (!continues) break;
+                    items[items.length - 1].push('');
+                    i++;
+                    continue;
+                }
+                const lineIndent = lines[i].search(/\S/);
+                // Indented lines (including nested lists) belong to the current item, and so do lazy continuation lines.
+                if (lineIndent > indent || !startsBlock(lines[i], lines[i + 1])) {
+                    items[items.length - 1].push(lineIndent > indent ? lines[i].slice(Math.min(lineIndent, indent + 4)) : lines[i].trim());
+                    i++;
+                    continue;
+                }
+                break;
+            }
+
+            const isLastBlock = partial && i === lines.length;
+            blocks.push({ type: 'list', ordered, start, items: items.map(item => parseBlocks(item, isLastBlock)) });
+            continue;
+        }
+
+        // Paragraph: consecutive lines up to a blank line or the start of another block.
+        const paragraph: string[] = [line.trim()];
+        i++;
+        while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i], lines[i + 1])) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), partial && i === lines.length) });
+    }
+
+    return blocks;
+};
+
+/**
+ * Parses Markdown text into blocks.
+ */
+export const parseMarkdown = (text: string, options: MarkdownOptions = {}): BlockNode[] => {
+    return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'), options.partial ?? false);
+};
+
+/**
+ * Returns the text of inline nodes as displayed, without citation markers.
+ */
+export const inlineText = (nodes: InlineNode[]): string => nodes.map(node => {
+    switch (node.type) {
+        case 'text':
+        case 'code':
+            return node.text;
+        case 'break':
+            return '\n';
+        case 'citation':
+            return '';
+        default:
+            return inlineText(node.children);
+    }
+}).join('');
+
+/**
+ * Collects the runs of inline content (paragraphs, headings, list items, table cells) in reading order.
+ * Code blocks are left out.
+ */
+export const collectInlineRuns = (blocks: BlockNode[]): InlineNode[][] => blocks.flatMap(block => {
+    switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+            return [block.children];
+        case 'list':
+            return block.items.flatMap(collectInlineRuns);
+        case 'table':
+            return [...block.header, ...block.rows.flat()];
+        case 'blockquote':
+            return collectInlineRuns(block.children);
+        default:
+            return [];
+    }
+});
@@ -1,4 +1,5 @@
 import * as pdfjsLib from 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.min.mjs';
+import type { ExtractedContent, TextSegment } from '../types';
 
 // Imposta il percorso del worker per pdf.js, essenziale per l'esecuzione in un ambiente web.
 // Fa in modo che l'analisi pesante avvenga in un thread separato per non bloccare l'interfaccia utente.
@@ -8,33 +9,304 @@ try {
     console.warn("Could not set PDF.js worker source. PDF parsing might be slower or fail in some environments.");
 }
 
+/** Una riga di testo ricostruita dagli item di pdf.js. */
+interface PdfLine {
+    text: string;
+    x: number;
+    y: number;
+    fontSize: number;
+}
+
+/** Una pagina del PDF ricostruita come elenco di righe dall'alto verso il basso. */
+interface PdfPage {
+    number: number;
+    lines: PdfLine[];
+}
+
+// Quante righe in cima e in fondo a ogni pagina vengono considerate candidate a intestazione o piè di pagina.
+const HEADER_FOOTER_LINES = 2;
+// Frazione minima di pagine su cui una riga deve ripetersi per essere considerata intestazione o piè di pagina.
+const HEADER_FOOTER_MIN_RATIO = 0.5;
+// Rapporto minimo tra la dimensione del font di una riga e quella del corpo del testo per considerarla un titolo.
+const HEADING_FONT_RATIO = 1.15;
+const HEADING_MAX_LENGTH = 120;
 
 /**
- * Estrae il testo da un singolo file PDF.
- * @param file L'oggetto File del PDF da analizzare.
- * @returns Una Promise che si risolve con il testo estratto come stringa.
+ * Raggruppa gli item di testo di una pagina in righe, usando la coordinata verticale della trasformazione.
+ * Gli item sulla stessa riga vengono uniti inserendo uno spazio solo quando c'è uno scarto orizzontale visibile.
+ */
+const buildLines = (items: any[]): PdfLine[] => {
+    const positioned = items
+        .filter(item => 'str' in item && item.str.length > 0)
+        .map(item => ({
+            str: item.str as string,
+            x: item.transform[4] as number,
+            y: item.transform[5] as number,
+            width: item.width as number,
+            fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height || 0,
+        }));
+
+    // Dall'alto verso il basso, poi da sinistra verso destra.
+    positioned.sort((a, b) => (Math.abs(b.y - a.y) > Math.max(a.fontSize, b.fontSize) * 0.5 ? b.y - a.y : a.x - b.x));
+
+    const lines: PdfLine[] = [];
+    let current: (PdfLine & { endX: number }) | null = null;
+
+    for (const item of positioned) {
+        const sameLine = current && Math.abs(current.y - item.y) <= Math.max(current.fontSize, item.fontSize) * 0.5;
+        if (current && sameLine) {
+            const gap = item.x - current.endX;
+            const needsSpace = gap > item.fontSize * 0.2 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+            current.text += (needsSpace ? ' ' : '') + item.str;
+            current.endX = item.x + item.width;
+            current.fontSize = Math.max(current.fontSize, item.fontSize);
+        } else {
+            if (current) lines.push(current);
+            current = { text: item.str, x: item.x, y: item.y, fontSize: item.fontSize, endX: item.x + item.width };
+        }
+    }
+    if (current) lines.push(current);
+
+    return lines
+        .map(({ text, x, y, fontSize }) => ({ text: text.replace(/\s+/g, ' ').trim(), x, y, fontSize }))
+        .filter(line => line.text.length > 0);
+};
+
+// Normalizza una riga per il confronto tra pagine: i numeri (es. numero di pagina) vengono ignorati.
+const normalizeForRepetition = (text: string): string => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+/**
+ * Individua le righe che si ripetono in cima o in fondo alla maggior parte delle pagine (intestazioni e piè di pagina).
+ * @returns L'insieme delle righe normalizzate da scartare.
+ */
+const findRepeatedLines = (pages: PdfPage[]): Set<string> => {
+    const repeated = new Set<string>();
+    if (pages.length < 3) return repeated;
+
+    const counts = new Map<string, number>();
+    for (const page of pages) {
+        const candidates = new Set([
+            ...page.lines.slice(0, HEADER_FOOTER_LINES),
+            ...page.lines.slice(-HEADER_FOOTER_LINES),
+        ].map(line => normalizeForRepetition(line.text)));
+        candidates.forEach(text => counts.set(text, (counts.get(text) ?? 0) + 1));
+    }
+
+    counts.forEach((count, text) => {
+        if (count / pages.length >= HEADER_FOOTER_MIN_RATIO) repeated.add(text);
+    });
+    return repeated;
+};
+
+const isPageNumber = (text: string): boolean => /^(pag(ina)?\.?\s*)?\d+(\s*(\/|di|of)\s*\d+)?$/i.test(text.trim());
+
+/**
+ * Calcola la dimensione del font del corpo del testo come la dimensione più frequente, pesata per numero di caratteri.
+ */
+const findBodyFontSize = (pages: PdfPage[]): number => {
+    const weights = new Map<number, number>();
+    for (const page of pages) {
+        for (const line of page.lines) {
+            const size = Math.round(line.fontSize * 2) / 2;
+            weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+        }
+    }
+    let bodySize = 0;
+    let maxWeight = -1;
+    weights.forEach((weight, size) => {
+        if (weight > maxWeight) {
+            maxWeight = weight;
+            bodySize = size;
+        }
+    });
+    return bodySize;
+};
+
+/**
+ * Ricompone le righe delle pagine in paragrafi e titoli, ognuno con il proprio numero di pagina.
+ * Un nuovo paragrafo inizia quando lo spazio verticale tra due righe è nettamente superiore all'interlinea,
+ * quando cambia la dimensione del font o quando la riga è un titolo.
+ */
+const buildSegments = (pages: PdfPage[]): TextSegment[] => {
+    const repeated = findRepeatedLines(pages);
+    const bodyFontSize = findBodyFontSize(pages);
+
+    // I livelli dei titoli seguono l'ordine decrescente delle dimensioni dei font più grandi del corpo.
+    const headingSizes = Array.from(new Set(
+        pages.flatMap(page => page.lines)
+            .filter(line => line.fontSize >= bodyFontSize * HEADING_FONT_RATIO)
+            .map(line => Math.round(line.fontSize))
+    )).sort((a, b) => b - a);
+
+    const isHeading = (line: PdfLine) =>
+        bodyFontSize > 0 &&
+        line.fontSize >= bodyFontSize * HEADING_FONT_RATIO &&
+        line.text.length <= HEADING_MAX_LENGTH &&
+        !/[.;,]$/.test(line.text);
+
+    const segments: TextSegment[] = [];
+
+    for (const page of pages) {
+        const lines = page.lines.filter((line, index) => {
+            const isEdge = index < HEADER_FOOTER_LINES || index >= page.lines.length - HEADER_FOOTER_LINES;
+            return !(isEdge && (repeated.has(normalizeForRepetition(line.text)) || isPageNumber(line.text)));
+        });
+
+        // Interlinea tipica della pagina: la mediana degli spazi verticali tra righe consecutive.
+        const gaps = lines.slice(1).map((line, i) => lines[i].y - line.y).filter(gap => gap > 0).sort((a, b) => a - b);
+        const typicalGap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : bodyFontSize * 1.2;
+
+        let paragraph: string[] = [];
+        let previous: PdfLine | null = null;
+
+        const flushParagraph = () => {
+            if (paragraph.length > 0) {
+                segments.push({ text: paragraph.join(' ').replace(/(\p{L})- (\p{Ll})/gu, '$1$2'), page: page.number });
+                paragraph = [];
+            }
+        };
+
+        for (const line of lines) {
+            if (isHeading(line)) {
+                flushParagraph();
+                const level = headingSizes.indexOf(Math.round(line.fontSize)) + 1;
+                const last = segments[segments.length - 1];
+                // Titoli su più righe con lo stesso font vengono uniti.
+                if (previous && isHeading(previous) && last?.headingLevel === level && last.page === page.number) {
+                    last.text += ' ' + line.text;
+                } else {
+                    segments.push({ text: line.text, page: page.number, headingLevel: level });
+                }
+            } else {
+                const startsNewParagraph = previous !== null && (
+                    isHeading(previous) ||
+                    previous.y - line.y > typicalGap * 1.5 ||
+                    Math.abs(previous.fontSize - line.fontSize) > bodyFontSize * 0.1
+                );
+                if (startsNewParagraph) flushParagraph();
+                paragraph.push(line.text);
+            }
+            previous = line;
+        }
+        flushParagraph();
+    }
+
+    return segments;
+};
+
+/**
+ * Converte i segmenti in testo semplice: un blocco per segmento, separati da una riga vuota.
+ * I titoli vengono preceduti da "#" in base al livello, come in Markdown.
+ */
+export const segmentsToText = (segments: TextSegment[]): string => {
+    return segments
+        .map(segment => segment.headingLevel ? `${'#'.repeat(segment.headingLevel)} ${segment.text}` : segment.text)
+        .join('\n\n');
+};
+
+/**
+ * Apre un PDF con pdf.js, per l'estrazione del testo o per il visualizzatore.
+ * @param file Il file o i byte originali del PDF.
+ * @returns Il documento pdf.js; va chiuso con `destroy()` quando non serve più.
  */
-export const extractTextFromPDF = async (file: File): Promise<string> => {
+export const loadPdfDocument = async (file: Blob): Promise<any> => {
     // Legge il file come ArrayBuffer, che è il formato richiesto da pdf.js.
     const arrayBuffer = await file.arrayBuffer();
+    return pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+};
 
-    // Carica il documento PDF dall'ArrayBuffer.
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    
-    let allText = '';
-    
-    // Itera su ogni pagina del PDF.
-    for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        
-        // Estrae gli item di testo e li unisce in una singola stringa per la pagina.
-        const pageText = textContent.items
-            .map(item => ('str' in item ? item.str : ''))
-            .join(' ');
-            
-        allText += pageText + '\n'; // Aggiunge un a capo tra le pagine.
+/** Riduce un testo a parole minuscole separate da spazi, per confrontare il PDF con il testo estratto. */
+const normalizeForMatch = (text: string): string => {
+    return (text.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join(' ');
+};
+
+// Gli item più corti di così ("di", "1.") compaiono ovunque: sono evidenziati solo tra due item già trovati.
+const MIN_MATCH_LENGTH = 4;
+// Item non trovati tollerati all'interno di un passaggio (ad esempio intestazioni o numeri di pagina rimossi in estrazione).
+const MAX_MATCH_GAP = 2;
+
+/**
+ * Trova gli item di testo di una pagina che compongono un passaggio estratto da quella pagina.
+ * Il testo estratto differisce da quello del PDF (a capo uniti, sillabazione corretta, titoli con "#"),
+ * quindi il confronto avviene item per item su testo normalizzato, tenendo il blocco contiguo più lungo.
+ * @param items Gli item restituiti da `page.getTextContent()`.
+ * @param passage Il testo da evidenziare, tipicamente un chunk.
+ * @returns Gli indici degli item da evidenziare.
+ */
+export const findPassageItems = (items: any[], passage: string): number[] => {
+    const target = normalizeForMatch(passage);
+    if (!target) return [];
+
+    const texts = items.map(item => normalizeForMatch(item.str ?? ''));
+    const longMatches = texts.map(text => text.length >= MIN_MATCH_LENGTH && target.includes(text));
+    const matched = [...longMatches];
+    // Item brevi racchiusi tra due item lunghi trovati fanno parte del passaggio.
+    const nonEmpty = texts.flatMap((text, i) => text ? [i] : []);
+    nonEmpty.forEach((i, k) => {
+        if (matched[i] || !target.includes(texts[i])) return;
+        const previous = nonEmpty[k - 1];
+        const next = nonEmpty[k + 1];
+        matched[i] = previous !== undefined && next !== undefined && longMatches[previous] && longMatches[next];
+    });
+
+    let best: number[] = [];
+    let bestLength = 0;
+    let current: number[] = [];
+    let currentLength = 0;
+    let gap = 0;
+    texts.forEach((text, i) => {
+        if (!text) return;
+        if (matched[i]) {
+            current.push(i);
+            currentLength += text.length;
+            gap = 0;
+            if (currentLength > bestLength) {
+                best = [...current];
+                bestLength = currentLength;
+            }
+        } else if (++gap > MAX_MATCH_GAP) {
+            current = [];
+            currentLength = 0;
+        }
+    });
+    return best;
+};
+
+/**
+ * Estrae i paragrafi e i titoli di un file PDF ricostruendo il layout di ogni pagina.
+ * Intestazioni e piè di pagina ripetuti vengono rimossi e ogni segmento riporta il numero di pagina.
+ * @param file L'oggetto File del PDF da analizzare.
+ * @param onProgress Callback opzionale invocata dopo ogni pagina con la frazione completata (0-1).
+ * @returns Una Promise che si risolve con il testo estratto e i relativi segmenti.
+ */
+export const extractContentFromPDF = async (file: File, onProgress?: (progress: number) => void): Promise<ExtractedContent> => {
+    const pdf = await loadPdfDocument(file);
+
+    const pages: PdfPage[] = [];
+
+    try {
+        // Itera su ogni pagina del PDF.
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const textContent = await page.getTextContent();
+            pages.push({ number: i, lines: buildLines(textContent.items) });
+            onProgress?.(i / pdf.numPages);
+        }
+    } finally {
+        // Libera il documento nel worker di pdf.js, anche se l'estrazione fallisce.
+        pdf.destroy();
     }
-    
-    return allText;
-};
\ No newline at end of file
+
+    const segments = buildSegments(pages);
+    return { text: segmentsToText(segments), segments };
+};
+
+/**
+ * Estrae il testo da un singolo file PDF.
+ * @param file L'oggetto File del PDF da analizzare.
+ * @param onProgress Callback opzionale invocata dopo ogni pagina con la frazione completata (0-1).
+ * @returns Una Promise che si risolve con il testo estratto come stringa.
+ */
+export const extractTextFromPDF = async (file: File, onProgress?: (progress: number) => void): Promise<string> => {
+    return (await extractContentFromPDF(file, onProgress)).text;
+};
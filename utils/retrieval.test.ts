@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { KnowledgeChunk } from '../types';
+import { buildBm25Index } from './bm25';
+import { createHashingEmbedder } from './embeddings';
+import { reciprocalRankFusion, retrieveChunks } from './retrieval';
+import { buildVectorIndex } from './vectorIndex';
+
+const TEXTS = [
+    'La garanzia copre i difetti di fabbricazione per due anni dalla consegna.',
+    'Il reso è gratuito entro trenta giorni: la merce va rispedita nella confezione originale.',
+    'Le spedizioni in Italia arrivano in tre giorni lavorativi; la spedizione è gratuita oltre 50 euro.',
+    'Per assistenza sulla garanzia scrivere al servizio clienti indicando il numero d\'ordine.',
+    'Il pagamento può avvenire con carta di credito, bonifico o contrassegno.',
+];
+
+const embedder = createHashingEmbedder();
+
+const embedChunks = async (): Promise<KnowledgeChunk[]> => {
+    const embeddings = await embedder.embed(TEXTS, 'RETRIEVAL_DOCUMENT');
+    return TEXTS.map((text, i) => ({
+        id: `doc:${i}`,
+        documentId: 'doc',
+        text,
+        headingPath: [],
+        startOffset: 0,
+        endOffset: text.length,
+        tokenCount: 0,
+        embedding: embeddings[i],
+    }));
+};
+
+describe('reciprocalRankFusion', () => {
+    it('favours the chunks ranked well by both rankings', () => {
+        const fused = reciprocalRankFusion([
+            [{ index: 0, score: 9 }, { index: 1, score: 5 }],
+            [{ index: 2, score: 0.9 }, { index: 1, score: 0.8 }],
+        ]);
+        expect(fused).toHaveLength(3);
+        expect(fused[0].index).toBe(1);
+        expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 62);
+        expect(fused[1].score).toBeCloseTo(1 / 61);
+    });
+
+    it('ignores the scale of the scores', () => {
+        const a = reciprocalRankFusion([[{ index: 0, score: 1000 }, { index: 1, score: 1 }]]);
+        const b = reciprocalRankFusion([[{ index: 0, score: 0.2 }, { index: 1, score: 0.1 }]]);
+        expect(a).toEqual(b);
+    });
+});
+
+describe('retrieveChunks', () => {
+    it('fuses BM25 and the hashing embeddings when a query embedding is given', async () => {
+        const chunks = await embedChunks();
+        const indexes = { bm25: buildBm25Index(chunks), vectors: buildVectorIndex(chunks) };
+        const query = 'spedizione gratuita';
+        const [queryEmbedding] = await embedder.embed([query], 'RETRIEVAL_QUERY');
+
+        const result = retrieveChunks(query, chunks, indexes, { topK: 2, scoreThreshold: 0 }, queryEmbedding);
+
+        expect(result.mode).toBe('hybrid');
+        expect(result.candidates[0].chunk.id).toBe('doc:2');
+        expect(result.candidates[0].lexical?.rank).toBe(1);
+        expect(result.candidates[0].semantic?.rank).toBe(1);
+        expect(result.chunks).toHaveLength(2);
+    });
+
+    it('returns the selected chunks in document order', async () => {
+        const chunks = await embedChunks();
+        const indexes = { bm25: buildBm25Index(chunks), vectors: buildVectorIndex(chunks) };
+        const query = 'assistenza garanzia';
+        const [queryEmbedding] = await embedder.embed([query], 'RETRIEVAL_QUERY');
+
+        const result = retrieveChunks(query, chunks, indexes, { topK: 2, scoreThreshold: 0 }, queryEmbedding);
+
+        expect(result.candidates[0].chunk.id).toBe('doc:3');
+        expect(result.chunks.map(chunk => chunk.id)).toEqual(['doc:0', 'doc:3']);
+    });
+
+    it('falls back to BM25 alone without a query embedding', async () => {
+        const chunks = await embedChunks();
+        const indexes = { bm25: buildBm25Index(chunks), vectors: buildVectorIndex(chunks) };
+
+        const result = retrieveChunks('pagamento con bonifico', chunks, indexes, { topK: 3, scoreThreshold: 0 });
+
+        expect(result.mode).toBe('lexical');
+        expect(result.chunks.map(chunk => chunk.id)).toEqual(['doc:4']);
+        expect(result.candidates[0].semantic).toBeUndefined();
+    });
+
+    it('drops the candidates below the score threshold', async () => {
+        const chunks = await embedChunks();
+        const indexes = { bm25: buildBm25Index(chunks), vectors: buildVectorIndex(chunks) };
+
+        const result = retrieveChunks('garanzia fabbricazione', chunks, indexes, { topK: 5, scoreThreshold: 0.9 });
+
+        expect(result.candidates.map(candidate => candidate.selected)).toEqual([true, false]);
+        expect(result.chunks.map(chunk => chunk.id)).toEqual(['doc:0']);
+    });
+});
@@ -0,0 +1,190 @@
+import type { KnowledgeChunk, KnowledgeDocument, MessageSource, RetrievalTraceCandidate } from '../types';
+import { searchBm25 } from './bm25';
+import type { Bm25Index, ScoredChunkIndex } from './bm25';
+import { searchVectors } from './vectorIndex';
+import type { VectorIndex } from './vectorIndex';
+
+// Constant of reciprocal rank fusion: higher values flatten the advantage of the very first ranks.
+const RRF_K = 60;
+// Each ranker contributes this many candidates per requested chunk to the fusion.
+const CANDIDATES_PER_RESULT = 4;
+// Length of the chunk excerpt kept in retrieval traces, which are stored with every answer.
+const TRACE_PREVIEW_CHARS = 200;
+
+export interface RetrievalIndexes {
+    bm25: Bm25Index;
+    vectors: VectorIndex;
+}
+
+export interface RetrievalOptions {
+    /** Maximum number of chunks to return. */
+    topK: number;
+    /** Drop chunks scoring below this fraction of the best score (0 keeps all of the top K). */
+    scoreThreshold: number;
+}
+
+/** Position and score of a chunk in one of the rankings fused by hybrid retrieval. */
+export interface RankerResult {
+    /** 1-based rank. */
+    rank: number;
+    score: number;
+}
+
+/** A chunk considered for the context, with how each ranker placed it. */
+export interface RankedCandidate {
+    chunk: KnowledgeChunk;
+    /** Final score: reciprocal rank fusion in hybrid mode, BM25 otherwise. */
+    score: number;
+    /** 1-based rank in the final ranking. */
+    rank: number;
+    lexical?: RankerResult;
+    semantic?: RankerResult;
+    /** Whether the chunk made the top K and passed the score cutoff. */
+    selected: boolean;
+}
+
+export interface RetrievalResult {
+    mode: 'hybrid' | 'lexical';
+    /** The best candidates, best first, including those that were not selected. */
+    candidates: RankedCandidate[];
+    /** The selected chunks, in their original order. */
+    chunks: KnowledgeChunk[];
+}
+
+/**
+ * Formats the page range of a chunk, e.g. "p. 12" or "pp. 12-13".
+ */
+export const formatPageRange = (chunk: Pick<KnowledgeChunk, 'pageStart' | 'pageEnd'>): string | null => {
+    if (chunk.pageStart === undefined) return null;
+    return chunk.pageEnd !== undefined && chunk.pageEnd !== chunk.pageStart
+        ? `pp. ${chunk.pageStart}-${chunk.pageEnd}`
+        : `p. ${chunk.pageStart}`;
+};
+
+/**
+ * Merges several rankings with reciprocal rank fusion: each chunk scores the sum of 1 / (k + rank) over the rankings it appears in.
+ * Only ranks are used, so lexical and cosine scores don't need to be on the same scale.
+ * @param rankings Rankings of chunk positions, best first.
+ * @returns The fused ranking, best first.
+ */
+export const reciprocalRankFusion = (rankings: ScoredChunkIndex[][], k: number = RRF_K): ScoredChunkIndex[] => {
+    const fused = new Map<number, number>();
+    for (const ranking of rankings) {
+        ranking.forEach((result, rank) => {
+            fused.set(result.index, (fused.get(result.index) ?? 0) + 1 / (k + rank + 1));
+        });
+    }
+    return Array.from(fused, ([index, score]) => ({ index, score })).sort((a, b) => b.score - a.score);
+};
+
+const toRankerResults = (ranking: ScoredChunkIndex[]): Map<number, RankerResult> => {
+    return new Map(ranking.map((result, i) => [result.index, { rank: i + 1, score: result.score }]));
+};
+
+/**
+ * Ranks the knowledge base chunks against a query and selects the most relevant ones.
+ * With a query embedding and a non-empty vector index, BM25 and cosine rankings are combined by
+ * reciprocal rank fusion; otherwise BM25 alone is used.
+ * @param query The search query.
+ * @param chunks The chunks the indexes were built from, in the same order.
+ * @param indexes The BM25 and vector indexes of the chunks.
+ * @param options Top-K and relative score cutoff.
+ * @param queryEmbedding The embedding of the query, if semantic search is available.
+ * @returns The selected chunks, and the ranked candidates they were chosen from for inspection.
+ */
+export const retrieveChunks = (
+    query: string,
+    chunks: KnowledgeChunk[],
+    indexes: RetrievalIndexes,
+    options: RetrievalOptions,
+    queryEmbedding?: number[]
+): RetrievalResult => {
+    const candidateCount = options.topK * CANDIDATES_PER_RESULT;
+    const lexical = searchBm25(indexes.bm25, query).slice(0, candidateCount);
+    const semantic = queryEmbedding
+        ? searchVectors(indexes.vectors, queryEmbedding, candidateCount)
+        : [];
+
+    const mode = semantic.length > 0 ? 'hybrid' : 'lexical';
+    const ranking = mode === 'hybrid' ? reciprocalRankFusion([lexical, semantic]) : lexical;
+    const lexicalResults = toRankerResults(lexical);
+    const semanticResults = toRankerResults(semantic);
+
+    const minScore = (ranking[0]?.score ?? 0) * options.scoreThreshold;
+    const candidates = ranking.slice(0, candidateCount).map((result, i): RankedCandidate => ({
+        chunk: chunks[result.index],
+        score: result.score,
+        rank: i + 1,
+        lexical: lexicalResults.get(result.index),
+        semantic: semanticResults.get(result.index),
+        selected: i < options.topK && result.score >= minScore,
+    }));
+
+    const selected = new Set(candidates.filter(candidate => candidate.selected).map(candidate => candidate.chunk));
+    return {
+        mode,
+        candidates,
+        chunks: chunks.filter(chunk => selected.has(chunk)), // Restore original order for context
+    };
+};
+
+/**
+ * Numbers the selected chunks as the sources an answer can cite.
+ * @param chunks The chunks sent as context, in the order they are presented to the model.
+ * @param documents The knowledge base documents, used to resolve titles.
+ */
+export const toMessageSources = (chunks: KnowledgeChunk[], documents: KnowledgeDocument[]): MessageSource[] => {
+    const titles = new Map(documents.map(doc => [doc.id, doc.title]));
+    return chunks.map((chunk, i) => ({
+        number: i + 1,
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        documentTitle: titles.get(chunk.documentId) ?? 'sconosciuto',
+        headingPath: chunk.headingPath,
+        pageStart: chunk.pageStart,
+        pageEnd: chunk.pageEnd,
+        text: chunk.text,
+    }));
+};
+
+/**
+ * Concatenates the sources into a single context string, labelling each with its citation number,
+ * source document, pages and section.
+ * @param sources The numbered chunks to include.
+ * @returns The context string to send to the model.
+ */
+export const buildContext = (sources: MessageSource[]): string => {
+    return sources
+        .map(source => {
+            const pages = formatPageRange(source);
+            const section = source.headingPath.length > 0 ? `, sezione: ${source.headingPath.join(' > ')}` : '';
+            return `[${source.number}] Documento: ${source.documentTitle}${pages ? `, ${pages}` : ''}${section}\n${source.text}`;
+        })
+        .join('\n\n---\n\n');
+};
+
+/**
+ * Converts ranked candidates into the compact form stored in an answer's retrieval trace.
+ * @param candidates The candidates returned by `retrieveChunks`.
+ * @param documents The knowledge base documents, used to resolve titles.
+ */
+export const toTraceCandidates = (candidates: RankedCandidate[], documents: KnowledgeDocument[]): RetrievalTraceCandidate[] => {
+    const titles = new Map(documents.map(doc => [doc.id, doc.title]));
+    return candidates.map(({ chunk, score, rank, lexical, semantic, selected }) => ({
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        documentTitle: titles.get(chunk.documentId) ?? 'sconosciuto',
+        headingPath: chunk.headingPath,
+        pageStart: chunk.pageStart,
+        pageEnd: chunk.pageEnd,
+        preview: chunk.text.length > TRACE_PREVIEW_CHARS ? `${chunk.text.slice(0, TRACE_PREVIEW_CHARS)}…` : chunk.text,
+        tokenCount: chunk.tokenCount,
+        rank,
+        score,
+        lexicalRank: lexical?.rank,
+        lexicalScore: lexical?.score,
+        semanticRank: semantic?.rank,
+        semanticScore: semantic?.score,
+        sent: selected,
+    }));
+};
@@ -0,0 +1,179 @@
+import type { AnswerAssessment, AnswerStatus, MessageSource } from '../types';
+
+export const ANSWER_STATUSES: AnswerStatus[] = ['answered', 'not_found', 'off_topic'];
+
+/**
+ * JSON schema of the structured answer. The answer comes last, so that the status is known
+ * before the text starts streaming.
+ */
+export const ANSWER_SCHEMA = {
+    type: 'object',
+    properties: {
+        status: { type: 'string', enum: ANSWER_STATUSES },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        citedChunks: { type: 'array', items: { type: 'integer' } },
+        answer: { type: 'string' },
+    },
+    required: ['status', 'confidence', 'citedChunks', 'answer'],
+    additionalProperties: false,
+};
+
+export interface StructuredAnswer {
+    /** The answer text, possibly still incomplete while streaming. */
+    text: string;
+    status?: AnswerStatus;
+    confidence?: number;
+    /** Numbers of the context chunks the model says it used. */
+    citedNumbers?: number[];
+}
+
+/**
+ * Parses the beginning of a JSON document. Strings cut off at the end are kept as they are;
+ * other incomplete values (numbers, literals, arrays, objects) are left out of their parent.
+ * @returns The parsed value, or `undefined` if the text ends before a value is complete.
+ */
+export const parsePartialJson = (text: string): unknown => {
+    let pos = 0;
+    let isTruncated = false;
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+
+    const parseString = (): string => {
+        let result = '';
+        pos++; // Opening quote
+        while (pos < text.length) {
+            const char = text[pos];
+            if (char === '"') {
+                pos++;
+                return result;
+            }
+            if (char === '\\') {
+                const escape = text[pos + 1];
+                if (escape === undefined) break;
+                if (escape === 'u') {
+                    const hex = text.slice(pos + 2, pos + 6);
+                    if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+                    result += String.fromCharCode(parseInt(hex, 16));
+                    pos += 6;
+                    continue;
+                }
+                result += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape;
+                pos += 2;
+                continue;
+            }
+            result += char;
+            pos++;
+        }
+        pos = text.length;
+        isTruncated = true;
+        return result;
+    };
+
+    const parseValue = (): unknown => {
+        skipWhitespace();
+        const char = text[pos];
+        if (char === undefined) {
+            isTruncated = true;
+            return undefined;
+        }
+        if (char === '"') return parseString();
+
+        if (char === '{' || char === '[') {
+            const isObject = char === '{';
+            const result: Record<string, unknown> | unknown[] = isObject ? {} : [];
+            pos++;
+            while (true) {
+                skipWhitespace();
+                if (pos >= text.length) {
+                    isTruncated = true;
+                    return result;
+                }
+                if (text[pos] === (isObject ? '}' : ']')) {
+                    pos++;
+                    return result;
+                }
+                let key = '';
+                if (isObject) {
+                    if (text[pos] !== '"') throw new SyntaxError(`Unexpected character at ${pos}`);
+                    key = parseString();
+                    skipWhitespace();
+                    if (isTruncated || pos >= text.length) {
+                        isTruncated = true;
+                        return result;
+                    }
+                    if (text[pos] !== ':') throw new SyntaxError(`Expected ':' at ${pos}`);
+                    pos++;
+                }
+                const value = parseValue();
+                // A string cut off at the end is kept; any other incomplete value is dropped.
+                if (value !== undefined && (!isTruncated || typeof value === 'string')) {
+                    if (isObject) (result as Record<string, unknown>)[key] = value;
+                    else (result as unknown[]).push(value);
+                }
+                if (isTruncated) return result;
+                skipWhitespace();
+                if (text[pos] === ',') pos++;
+            }
+        }
+
+        const rest = text.slice(pos);
+        const literal = /^(-?\d+(?:\.\d*)?(?:[eE][+-]?\d*)?|true|false|null)/.exec(rest);
+        // The text may end in the middle of a literal ("-", "tr").
+        if (!literal && /^[-\w.]+$/.test(rest)) {
+            pos = text.length;
+            isTruncated = true;
+            return undefined;
+        }
+        if (!literal) throw new SyntaxError(`Unexpected character at ${pos}`);
+        pos += literal[0].length;
+        // A number at the very end may still be growing ("0." before "0.85").
+        if (pos >= text.length) {
+            isTruncated = true;
+            return undefined;
+        }
+        return JSON.parse(literal[0]);
+    };
+
+    return parseValue();
+};
+
+/**
+ * Reads a structured answer from the model output, complete or still streaming.
+ * Output that is not a JSON object (from a provider ignoring the schema) is taken as a plain answer.
+ */
+export const parseStructuredAnswer = (raw: string): StructuredAnswer => {
+    if (!raw.trimStart().startsWith('{')) return { text: raw };
+
+    let value: unknown;
+    try {
+        value = parsePartialJson(raw.trimStart());
+    } catch {
+        return { text: raw };
+    }
+    const fields = (value ?? {}) as Record<string, unknown>;
+    return {
+        text: typeof fields.answer === 'string' ? fields.answer : '',
+        status: ANSWER_STATUSES.includes(fields.status as AnswerStatus) ? fields.status as AnswerStatus : undefined,
+        confidence: typeof fields.confidence === 'number' ? Math.min(1, Math.max(0, fields.confidence)) : undefined,
+        citedNumbers: Array.isArray(fields.citedChunks)
+            ? fields.citedChunks.filter((n): n is number => Number.isInteger(n))
+            : undefined,
+    };
+};
+
+/**
+ * Builds the assessment stored with a message, once the status of the answer is known.
+ * Cited numbers that do not match a source sent with the question are dropped.
+ */
+export const toAssessment = (answer: StructuredAnswer, sources: MessageSource[]): AnswerAssessment | undefined => {
+    if (!answer.status) return undefined;
+    return {
+        status: answer.status,
+        confidence: answer.confidence,
+        citedChunkIds: (answer.citedNumbers ?? [])
+            .map(number => sources.find(source => source.number === number)?.chunkId)
+            .filter((chunkId): chunkId is string => chunkId !== undefined),
+    };
+};
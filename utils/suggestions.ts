@@ -0,0 +1,67 @@
+import type { KnowledgeChunk, KnowledgeDocument } from '../types';
+
+/** Starter questions generated for a knowledge base, cached with it. */
+export interface StarterQuestions {
+    /** The knowledge base the questions were generated from, as returned by `knowledgeBaseFingerprint`. */
+    fingerprint: string;
+    questions: string[];
+}
+
+/**
+ * Identifies the content of the enabled documents: it changes when a document is added, removed, toggled or reloaded.
+ */
+export const knowledgeBaseFingerprint = (documents: KnowledgeDocument[]): string => documents
+    .filter(doc => doc.enabled)
+    .map(doc => `${doc.id}@${doc.loadedAt}`)
+    .sort()
+    .join('|');
+
+/**
+ * Picks chunks spread evenly across the knowledge base, so that the starter questions cover every document
+ * rather than the beginning of the first one.
+ * @param chunks The chunks of the enabled documents, in document order.
+ * @param maxTokens The maximum estimated tokens of the selection.
+ */
+export const sampleChunks = (chunks: KnowledgeChunk[], maxTokens: number): KnowledgeChunk[] => {
+    if (chunks.length === 0) return [];
+    const averageTokens = chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0) / chunks.length;
+    const count = Math.max(1, Math.min(chunks.length, Math.floor(maxTokens / Math.max(averageTokens, 1))));
+    const step = chunks.length / count;
+
+    const sample: KnowledgeChunk[] = [];
+    let used = 0;
+    for (let i = 0; i < count; i++) {
+        const chunk = chunks[Math.floor(i * step)];
+        if (sample.length > 0 && used + chunk.tokenCount > maxTokens) break;
+        sample.push(chunk);
+        used += chunk.tokenCount;
+    }
+    return sample;
+};
+
+/**
+ * Finds the chunks next to those an answer was given, in their documents, which are likely to cover
+ * what the user may ask next.
+ * @param sentChunkIds The chunks sent as context, in rank order.
+ * @param chunksByDocument The chunks of each document, in document order.
+ * @param maxChunks The maximum number of chunks returned.
+ */
+export const neighbourChunks = (sentChunkIds: string[], chunksByDocument: Record<string, KnowledgeChunk[]>, maxChunks: number): KnowledgeChunk[] => {
+    const sent = new Set(sentChunkIds);
+    const neighbours: KnowledgeChunk[] = [];
+    const added = new Set<string>();
+
+    for (const chunkId of sentChunkIds) {
+        const documentId = chunkId.slice(0, chunkId.lastIndexOf(':'));
+        const chunks = chunksByDocument[documentId] ?? [];
+        const position = chunks.findIndex(chunk => chunk.id === chunkId);
+        if (position < 0) continue;
+        for (const candidate of [chunks[position + 1], chunks[position - 1]]) {
+            if (!candidate || sent.has(candidate.id) || added.has(candidate.id)) continue;
+            neighbours.push(candidate);
+            added.add(candidate.id);
+            if (neighbours.length >= maxChunks) return neighbours;
+        }
+    }
+    return neighbours;
+};
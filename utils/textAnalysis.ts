@@ -0,0 +1,67 @@
+/**
+ * Common Italian function words, excluded from lexical indexing because they match almost every chunk.
+ * Stored already lowercased and without apostrophes, as produced by `tokenize`.
+ */
+export const ITALIAN_STOPWORDS = new Set([
+    'a', 'ad', 'al', 'allo', 'alla', 'ai', 'agli', 'alle', 'all', 'anche', 'ancora', 'avere', 'aveva', 'avevano', 'ben',
+    'che', 'chi', 'ci', 'come', 'con', 'contro', 'cosa', 'così', 'cui', 'da', 'dal', 'dallo', 'dalla', 'dai', 'dagli', 'dalle',
+    'dall', 'degli', 'dei', 'del', 'dell', 'della', 'delle', 'dello', 'dentro', 'di', 'dove', 'e', 'è', 'ed', 'era', 'erano',
+    'essere', 'fa', 'fino', 'fra', 'fu', 'gli', 'ha', 'hai', 'hanno', 'ho', 'i', 'il', 'in', 'io', 'l', 'la', 'le', 'lei', 'li',
+    'lo', 'loro', 'lui', 'ma', 'me', 'mi', 'mia', 'mie', 'miei', 'mio', 'ne', 'negli', 'nei', 'nel', 'nell', 'nella', 'nelle',
+    'nello', 'no', 'noi', 'non', 'nostra', 'nostre', 'nostri', 'nostro', 'o', 'od', 'ogni', 'per', 'perché', 'perchè', 'però',
+    'più', 'poi', 'possono', 'può', 'qual', 'quale', 'quali', 'qualche', 'quando', 'quanta', 'quante', 'quanti', 'quanto',
+    'quella', 'quelle', 'quelli', 'quello', 'questa', 'queste', 'questi', 'questo', 'qui', 'se', 'sei', 'senza', 'si', 'sia',
+    'siamo', 'siete', 'sono', 'sta', 'stato', 'su', 'sua', 'sue', 'sugli', 'sui', 'sul', 'sull', 'sulla', 'sulle', 'sullo',
+    'suo', 'suoi', 'te', 'ti', 'tra', 'tu', 'tua', 'tue', 'tuo', 'tuoi', 'tutti', 'tutto', 'un', 'una', 'uno', 'vi', 'voi',
+    'vostra', 'vostro', 'sarà', 'saranno', 'stata', 'stati', 'state',
+]);
+
+// Derivational and inflectional suffixes, longest first. Only one is removed per word.
+const SUFFIXES = [
+    'amente', 'imento', 'imenti', 'amento', 'amenti', 'azione', 'azioni', 'mente', 'zione', 'zioni', 'abile', 'abili',
+    'ibile', 'ibili', 'ista', 'iste', 'isti', 'ismo', 'ismi', 'anza', 'anze', 'enza', 'enze', 'ità',
+];
+
+const FINAL_VOWEL = /[aeiouàèéìòù]$/;
+
+/**
+ * Light Italian stemmer: strips one common suffix, then the final vowel, so that singular/plural and
+ * masculine/feminine forms ("prezzo", "prezzi", "prezza") and close derivations share a stem.
+ * Short words are left untouched to avoid collisions.
+ */
+export const stemItalian = (word: string): string => {
+    if (word.length <= 4) return word;
+
+    let stem = word;
+    for (const suffix of SUFFIXES) {
+        if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+            stem = stem.slice(0, -suffix.length);
+            break;
+        }
+    }
+
+    // Keep the hard sound of "-chi", "-ghi", "-che", "-ghe".
+    stem = stem.replace(/([cg])h[ie]$/, '$1');
+
+    if (stem.length > 4 && FINAL_VOWEL.test(stem)) {
+        stem = stem.slice(0, -1);
+    }
+    return stem;
+};
+
+/**
+ * Splits text into lowercase Unicode word tokens, so accented words like "perché" or "qualità" stay whole.
+ * Elided articles ("l'azienda", "dell'offerta") are split at the apostrophe.
+ */
+export const tokenize = (text: string): string[] => {
+    return text.normalize('NFC').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+};
+
+/**
+ * Turns text into index terms: tokens without stopwords, stemmed.
+ */
+export const analyzeText = (text: string): string[] => {
+    return tokenize(text)
+        .filter(token => !ITALIAN_STOPWORDS.has(token))
+        .map(stemItalian);
+};
@@ -0,0 +1,91 @@
+import type { Message, MessageUsage } from '../types';
+
+/** Price of a model, in euro per million tokens. */
+export interface ModelPrice {
+    input: number;
+    /** Also applies to thinking tokens. */
+    output: number;
+}
+
+/**
+ * List prices of the models, converted from US dollars at 0.92 €/$. Gemini 2.5 Pro prices apply to prompts
+ * of up to 200k tokens, which always holds with retrieval. Update when the providers change their prices.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.28, output: 2.30 },
+    'gemini-2.5-pro': { input: 1.15, output: 9.20 },
+    'gpt-4o-mini': { input: 0.14, output: 0.55 },
+    'gpt-4o': { input: 2.30, output: 9.20 },
+    mock: { input: 0, output: 0 },
+};
+
+/** Tokens spent on a whole conversation. */
+export interface UsageTotals {
+    promptTokens: number;
+    contextTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    auxiliaryTokens: number;
+    totalTokens: number;
+    /** In euro; undefined if a model without a known price was used. */
+    cost?: number;
+    /** Answered turns counted. */
+    turns: number;
+    estimated: boolean;
+}
+
+export const totalTokens = (usage: MessageUsage): number =>
+    usage.promptTokens + usage.outputTokens + usage.thinkingTokens + usage.auxiliaryPromptTokens + usage.auxiliaryOutputTokens;
+
+/**
+ * Converts the usage of a turn into euro, or returns undefined if the model has no known price.
+ */
+export const usageCost = (usage: MessageUsage): number | undefined => {
+    const price = MODEL_PRICES[usage.model];
+    if (!price) return undefined;
+    const input = usage.promptTokens + usage.auxiliaryPromptTokens;
+    const output = usage.outputTokens + usage.thinkingTokens + usage.auxiliaryOutputTokens;
+    return (input * price.input + output * price.output) / 1_000_000;
+};
+
+/**
+ * Collects the usage of every answer of a conversation, including those of the versions that are not shown.
+ */
+export const collectUsages = (messages: Message[]): MessageUsage[] => messages.flatMap(msg => {
+    const own = msg.usage ? [msg.usage] : [];
+    // The stored copy of the active version is stale: the live messages are counted instead.
+    const versions = msg.branches?.versions.filter((_, i) => i !== msg.branches!.active) ?? [];
+    return [...own, ...versions.flatMap(collectUsages)];
+});
+
+/**
+ * Adds up the usage of every answer of a conversation, including replaced versions, which were paid for too.
+ */
+export const sumUsage = (messages: Message[]): UsageTotals => {
+    const totals: UsageTotals = {
+        promptTokens: 0, contextTokens: 0, outputTokens: 0, thinkingTokens: 0, auxiliaryTokens: 0, totalTokens: 0,
+        cost: 0, turns: 0, estimated: false,
+    };
+    for (const usage of collectUsages(messages)) {
+        totals.promptTokens += usage.promptTokens;
+        totals.contextTokens += usage.contextTokens;
+        totals.outputTokens += usage.outputTokens;
+        totals.thinkingTokens += usage.thinkingTokens;
+        totals.auxiliaryTokens += usage.auxiliaryPromptTokens + usage.auxiliaryOutputTokens;
+        totals.totalTokens += totalTokens(usage);
+        const cost = usageCost(usage);
+        totals.cost = totals.cost === undefined || cost === undefined ? undefined : totals.cost + cost;
+        totals.turns++;
+        totals.estimated ||= usage.estimated;
+    }
+    return totals;
+};
+
+/**
+ * Formats a cost in euro, with enough decimals to show the cost of a single turn.
+ */
+export const formatEur = (value: number | undefined): string => {
+    if (value === undefined) return 'n/d';
+    const digits = value > 0 && value < 0.01 ? 4 : 2;
+    return value.toLocaleString('it-IT', { style: 'currency', currency: 'EUR', minimumFractionDigits: digits, maximumFractionDigits: digits });
+};
@@ -0,0 +1,62 @@
+import type { KnowledgeChunk } from '../types';
+import type { ScoredChunkIndex } from './bm25';
+
+/**
+ * In-memory index of unit-length chunk vectors, so cosine similarity reduces to a dot product.
+ */
+export interface VectorIndex {
+    dimensions: number;
+    vectors: Float32Array[];
+    /** Position of each vector's chunk in the array the index was built from. */
+    chunkIndices: number[];
+}
+
+const normalize = (vector: ArrayLike<number>): Float32Array => {
+    const result = Float32Array.from(vector);
+    let norm = 0;
+    for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+        for (let i = 0; i < result.length; i++) result[i] /= norm;
+    }
+    return result;
+};
+
+/**
+ * Builds a vector index over the chunks that have an embedding. Chunks without one are skipped.
+ * @param include Rejects chunks that cannot be compared with the queries, such as those embedded by another model.
+ */
+export const buildVectorIndex = (chunks: KnowledgeChunk[], include: (chunk: KnowledgeChunk) => boolean = () => true): VectorIndex => {
+    const vectors: Float32Array[] = [];
+    const chunkIndices: number[] = [];
+    chunks.forEach((chunk, i) => {
+        if (chunk.embedding && chunk.embedding.length > 0 && include(chunk)) {
+            vectors.push(normalize(chunk.embedding));
+            chunkIndices.push(i);
+        }
+    });
+    return { dimensions: vectors[0]?.length ?? 0, vectors, chunkIndices };
+};
+
+/**
+ * Finds the chunks most similar to a query vector by cosine similarity.
+ * @param index The vector index.
+ * @param queryVector The embedding of the query, from the same model as the index.
+ * @param topK The maximum number of results.
+ * @returns The most similar chunks with a positive similarity, best first.
+ */
+export const searchVectors = (index: VectorIndex, queryVector: number[], topK: number): ScoredChunkIndex[] => {
+    if (index.vectors.length === 0 || queryVector.length !== index.dimensions) return [];
+
+    const query = normalize(queryVector);
+    const results: ScoredChunkIndex[] = index.vectors.map((vector, i) => {
+        let score = 0;
+        for (let d = 0; d < vector.length; d++) score += vector[d] * query[d];
+        return { index: index.chunkIndices[i], score };
+    });
+
+    return results
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+};
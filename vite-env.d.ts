@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+/** Variables exposed to the client by Vite from the `.env` files. */
+interface ImportMetaEnv {
+    readonly VITE_API_KEY?: string;
+    readonly VITE_OPENAI_API_KEY?: string;
+}